@@ -1,4 +1,11 @@
 import { requestUrl, RequestUrlParam } from 'obsidian';
+import { DavTransport } from './webdav';
+
+// Sends the WebDAV client's requests through Obsidian, which isn't subject to CORS
+export const requestUrlTransport: DavTransport = async request => {
+    const response = await requestUrl({ ...request, throw: false });
+    return { status: response.status, headers: response.headers, text: response.text };
+};
 
 export const obsidianFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
     const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
@@ -36,7 +43,10 @@ export const obsidianFetch = async (input: RequestInfo | URL, init?: RequestInit
         // Convert headers to standard Headers object
         const responseHeaders = new Headers(response.headers);
 
-        return new Response(response.arrayBuffer, {
+        // Responses like 204 No Content must not be constructed with a body
+        const nullBodyStatus = [101, 204, 205, 304].includes(response.status);
+
+        return new Response(nullBodyStatus ? null : response.arrayBuffer, {
             status: response.status,
             statusText: response.status.toString(), // requestUrl doesn't give statusText
             headers: responseHeaders
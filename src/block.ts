@@ -0,0 +1,202 @@
+// A rendered nextcloud block. Keeps its last results on screen while refreshing, and with
+// `refresh:` polls the folder's (or embedded file's) etag so it only re-renders when something actually changed.
+import { Component, MarkdownRenderChild, setIcon } from 'obsidian';
+import type NextcloudPlugin from './main';
+import { contentKey, renderEmbed } from './embed';
+import { Filter } from './filters';
+import { NextcloudFile } from './model';
+import { parseDuration } from './query';
+import { groupEntries } from './sort';
+import { renderSearchResults } from './unifiedsearch';
+
+export class NextcloudBlock extends MarkdownRenderChild {
+    plugin: NextcloudPlugin;
+    params: Record<string, unknown>;
+    sourcePath: string;
+    private statusEl: HTMLElement;
+    private refreshEl: HTMLElement;
+    private bodyEl: HTMLElement;
+    // Owns the Markdown and previews of the current results; replaced on every render
+    private content: Component | null = null;
+    private loading = false;
+    // What the current results were rendered from: the listed folder's or embedded file's
+    // etag, or for Search blocks a summary of the results
+    private version: string | null = null;
+
+    constructor(plugin: NextcloudPlugin, containerEl: HTMLElement, params: Record<string, unknown>, sourcePath: string) {
+        super(containerEl);
+        this.plugin = plugin;
+        this.params = params;
+        this.sourcePath = sourcePath;
+    }
+
+    onload() {
+        const header = this.containerEl.createDiv({ cls: 'nextcloud-block-header' });
+        this.statusEl = header.createSpan({ cls: 'nextcloud-block-status' });
+        this.refreshEl = header.createDiv({ cls: 'clickable-icon nextcloud-block-refresh', attr: { 'aria-label': 'Refresh' } });
+        setIcon(this.refreshEl, 'refresh-cw');
+        this.refreshEl.addEventListener('click', () => void this.refresh(true));
+
+        this.bodyEl = this.containerEl.createDiv({ cls: 'nextcloud-block-body' });
+        this.bodyEl.createEl('p', { cls: 'nextcloud-block-message', text: 'Loading...' });
+
+        this.plugin.blocks.add(this);
+        if (typeof this.params['refresh'] === 'string') {
+            const interval = parseDuration(this.params['refresh']);
+            this.registerInterval(window.setInterval(() => { void this.poll(); }, interval));
+        }
+        void this.refresh(false);
+    }
+
+    onunload() {
+        this.plugin.blocks.delete(this);
+    }
+
+    // Polling pauses while the note is in a background tab, scrolled out of a hidden pane or the window is hidden
+    private async poll() {
+        if (this.loading || document.hidden || !this.containerEl.isShown()) return;
+
+        if (this.params['command'] === 'Search') {
+            await this.refresh(true, true);
+            return;
+        }
+        try {
+            const options = this.plugin.getListOptions(this.params);
+            const root = this.params['command'] === 'Embed'
+                ? this.params['file'] as string
+                : options.scope ?? (this.params['folder'] as string || '/');
+            const current = await this.plugin.stat(root, this.plugin.getAccount(options.account));
+            if (current.etag !== this.version) {
+                await this.refresh(true);
+            }
+        } catch (error) {
+            // Try again on the next tick; the results on screen stay as they are
+            console.error('Nextcloud block refresh failed:', error);
+        }
+    }
+
+    // fresh skips the listing cache. With onlyIfChanged, results matching what is shown are not re-rendered.
+    async refresh(fresh: boolean, onlyIfChanged = false) {
+        if (this.loading) return;
+        this.loading = true;
+        this.containerEl.addClass('is-loading');
+        this.statusEl.removeClass('is-error');
+        this.statusEl.setText(this.version === null ? '' : 'Refreshing...');
+
+        const content = new Component();
+        const body = createDiv({ cls: 'nextcloud-block-body' });
+        try {
+            const command = this.params['command'];
+            const status = command === 'Search' ? await this.renderSearch(body, content, onlyIfChanged)
+                : command === 'Embed' ? await this.renderEmbed(body, content)
+                : await this.renderListing(body, content, fresh);
+            if (status === null) {
+                this.statusEl.setText(`Updated ${new Date().toLocaleTimeString()}`);
+                return;
+            }
+
+            // Swap the new results in at once instead of emptying the block while loading
+            if (this.content) this.removeChild(this.content);
+            this.content = this.addChild(content);
+            this.bodyEl.replaceWith(body);
+            this.bodyEl = body;
+            this.statusEl.setText(status);
+        } catch (error) {
+            if (this.version === null) {
+                this.bodyEl.empty();
+                this.bodyEl.createEl('p', { text: `Error: ${error.message}` });
+                this.statusEl.setText('');
+            } else {
+                this.statusEl.addClass('is-error');
+                this.statusEl.setText(`Refresh failed: ${error.message}`);
+            }
+        } finally {
+            this.loading = false;
+            this.containerEl.removeClass('is-loading');
+        }
+    }
+
+    // Returns the status line to show
+    private async renderListing(el: HTMLElement, component: Component, fresh: boolean): Promise<string> {
+        const { plugin, params } = this;
+        const options = { ...plugin.getListOptions(params), fresh };
+        const listing = await plugin.fetchListing(params['folder'] as string || '/', params['filter'] as Filter[] | undefined, options);
+        const results = listing.files.slice(options.offset || 0);
+        const pageSize = options.limit || results.length;
+
+        if (plugin.usesShareLinks(params)) {
+            await plugin.loadShareLinks(plugin.getAccount(options.account));
+        }
+        this.version = listing.etag ?? '';
+
+        if (results.length === 0) {
+            el.createEl('p', { text: 'No files found matching criteria.' });
+        } else if (typeof params['groupby'] === 'string') {
+            groupEntries(results, params['groupby']).forEach(group => {
+                const groupEl = el.createDiv({ cls: 'nextcloud-group' });
+                groupEl.createDiv({ cls: 'nextcloud-group-heading', text: `${group.label} (${group.files.length})` });
+                plugin.renderResults(groupEl, group.files, params, pageSize, this.sourcePath, component);
+            });
+        } else {
+            plugin.renderResults(el, results, params, pageSize, this.sourcePath, component);
+        }
+
+        const incomplete = listing.truncated ? ` · Stopped at Max entries (${options.maxEntries ?? plugin.settings.maxEntries}), results are incomplete` : '';
+        if (listing.cachedAt) {
+            const cachedAt = new Date(listing.cachedAt).toLocaleString();
+            return (listing.offline ? `Offline · cached as of ${cachedAt}` : `Cached as of ${cachedAt}`) + incomplete;
+        }
+        return `Updated ${new Date().toLocaleTimeString()}${incomplete}`;
+    }
+
+    // The file is checked on every render; its contents are only downloaded again when its etag changed
+    private async renderEmbed(el: HTMLElement, component: Component): Promise<string> {
+        const { plugin, params } = this;
+        const account = plugin.getAccount(params['account'] as string);
+        const path = plugin.normalizeFolder(params['file'] as string);
+        const key = contentKey(account.id, path);
+
+        // Markdown files can embed other files; don't follow them in circles
+        for (let parent = this.containerEl.parentElement?.closest('.nextcloud-embed'); parent; parent = parent.parentElement?.closest('.nextcloud-embed')) {
+            if (parent.getAttribute('data-embed') === key) {
+                throw new Error(`${path} embeds itself`);
+            }
+        }
+
+        let file: NextcloudFile;
+        let status = `Updated ${new Date().toLocaleTimeString()}`;
+        try {
+            file = await plugin.stat(path, account);
+        } catch (error) {
+            // Show the last downloaded version while the server can't be reached
+            const cached = error.status || !plugin.settings.cacheEnabled ? undefined : plugin.contents.get(key);
+            if (!cached) throw error;
+            file = cached.file;
+            status = `Offline · cached as of ${new Date(cached.fetchedAt).toLocaleString()}`;
+        }
+
+        await renderEmbed(plugin, el.createDiv({ cls: 'markdown-rendered nextcloud-embed', attr: { 'data-embed': key } }), file, this.sourcePath, component);
+        this.version = file.etag;
+        return status;
+    }
+
+    // Returns null when onlyIfChanged is set and the results are the ones already shown
+    private async renderSearch(el: HTMLElement, component: Component, onlyIfChanged: boolean): Promise<string | null> {
+        const { plugin, params } = this;
+        const results = await plugin.runSearch(params);
+        const version = JSON.stringify(results.map(result => [result.url, result.title, result.subline, result.file?.etag]));
+        if (onlyIfChanged && version === this.version) return null;
+
+        if (plugin.usesShareLinks(params)) {
+            await plugin.loadShareLinks(plugin.getAccount(params['account'] as string));
+        }
+        this.version = version;
+
+        if (results.length === 0) {
+            el.createEl('p', { text: 'No search results.' });
+        } else {
+            renderSearchResults(plugin, el, results, params, this.sourcePath, component);
+        }
+        return `Updated ${new Date().toLocaleTimeString()}`;
+    }
+}
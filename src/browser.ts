@@ -0,0 +1,259 @@
+// Sidebar view that browses the Nextcloud drive as a tree. Folders are listed when they are first expanded.
+import { ItemView, Menu, Notice, WorkspaceLeaf, setIcon } from 'obsidian';
+import type NextcloudPlugin from './main';
+import { NextcloudFile } from './model';
+import { markdownLink } from './links';
+import { mimeIcon } from './gallery';
+import { compareEntries } from './sort';
+
+export const BROWSER_VIEW_TYPE = 'nextcloud-browser';
+
+const RECENT_COUNT = 10;
+
+export class NextcloudBrowserView extends ItemView {
+    plugin: NextcloudPlugin;
+    // Account id; empty for the default account
+    account = '';
+    root = '/';
+    filter = '';
+    // Skip the listing cache on the next render, after the refresh button was used
+    private fresh = false;
+    private bodyEl: HTMLElement;
+
+    constructor(leaf: WorkspaceLeaf, plugin: NextcloudPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return BROWSER_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Nextcloud';
+    }
+
+    getIcon(): string {
+        return 'cloud';
+    }
+
+    async onOpen() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('nextcloud-browser');
+
+        const toolbar = container.createDiv({ cls: 'nextcloud-browser-toolbar' });
+        const filterInput = toolbar.createEl('input', { type: 'search', placeholder: 'Filter...' });
+        filterInput.addEventListener('input', () => {
+            this.filter = filterInput.value.trim().toLowerCase();
+            this.bodyEl.querySelectorAll<HTMLElement>('.nextcloud-browser-tree, .nextcloud-browser-section > .tree-item-children')
+                .forEach(el => this.applyFilter(el));
+        });
+
+        if (this.plugin.settings.accounts.length > 1) {
+            const select = toolbar.createEl('select', { cls: 'dropdown' });
+            select.createEl('option', { text: 'Default account', value: '' });
+            this.plugin.settings.accounts.forEach(account => select.createEl('option', { text: account.name, value: account.id }));
+            select.value = this.account;
+            select.addEventListener('change', () => {
+                this.account = select.value;
+                this.root = '/';
+                this.render();
+            });
+        }
+
+        const refresh = toolbar.createDiv({ cls: 'clickable-icon', attr: { 'aria-label': 'Refresh' } });
+        setIcon(refresh, 'refresh-cw');
+        refresh.addEventListener('click', () => {
+            this.fresh = true;
+            this.render();
+        });
+
+        this.bodyEl = container.createDiv({ cls: 'nextcloud-browser-body' });
+        this.render();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    render() {
+        const body = this.bodyEl;
+        body.empty();
+
+        this.renderSection(body, 'Favorites', async () =>
+            await this.plugin.listFiles('/', [{ favorite: 'true' }], {
+                depth: Infinity,
+                scope: '/',
+                sort: [{ field: 'name', descending: false }],
+                account: this.account,
+                fresh: this.fresh
+            }));
+
+        this.renderSection(body, 'Recent', async () =>
+            (await this.plugin.listFiles('/', [{ type: 'file' }, { modifiedafter: 'now - 14 days' }], {
+                depth: Infinity,
+                scope: '/',
+                sort: [{ field: 'modified', descending: true }],
+                account: this.account,
+                fresh: this.fresh
+            })).slice(0, RECENT_COUNT));
+
+        this.renderBreadcrumbs(body.createDiv({ cls: 'nextcloud-browser-breadcrumbs' }));
+        void this.renderFolder(body.createDiv({ cls: 'nextcloud-browser-tree' }), this.root).then(() => {
+            this.fresh = false;
+        });
+    }
+
+    renderBreadcrumbs(el: HTMLElement) {
+        const parts = this.root.split('/').filter(part => part);
+        const crumb = (text: string, path: string) => {
+            const link = el.createSpan({ text, cls: 'nextcloud-browser-crumb' });
+            link.addEventListener('click', () => this.navigate(path));
+        };
+
+        crumb('Home', '/');
+        parts.forEach((part, index) => {
+            el.createSpan({ text: '/', cls: 'nextcloud-browser-crumb-separator' });
+            crumb(part, '/' + parts.slice(0, index + 1).join('/'));
+        });
+    }
+
+    navigate(folder: string) {
+        this.root = folder;
+        this.render();
+    }
+
+    renderSection(el: HTMLElement, title: string, load: () => Promise<NextcloudFile[]>) {
+        const section = el.createDiv({ cls: 'tree-item nextcloud-browser-section is-collapsed' });
+        const header = section.createDiv({ cls: 'tree-item-self is-clickable mod-collapsible' });
+        const icon = header.createDiv({ cls: 'tree-item-icon collapse-icon is-collapsed' });
+        setIcon(icon, 'right-triangle');
+        header.createDiv({ cls: 'tree-item-inner', text: title });
+        const children = section.createDiv({ cls: 'tree-item-children' });
+        children.hide();
+
+        let loaded = false;
+        header.addEventListener('click', () => {
+            const collapsed = section.hasClass('is-collapsed');
+            section.toggleClass('is-collapsed', !collapsed);
+            icon.toggleClass('is-collapsed', !collapsed);
+            children.toggle(collapsed);
+            if (collapsed && !loaded) {
+                loaded = true;
+                void this.renderFiles(children, load);
+            }
+        });
+    }
+
+    async renderFolder(el: HTMLElement, folder: string) {
+        await this.renderFiles(el, async () => {
+            const files = await this.plugin.listFiles(folder, undefined, { depth: 1, account: this.account, fresh: this.fresh });
+            return files.sort(compareEntries([{ field: 'type', descending: false }, { field: 'name', descending: false }]));
+        });
+    }
+
+    async renderFiles(el: HTMLElement, load: () => Promise<NextcloudFile[]>) {
+        const loading = el.createDiv({ cls: 'nextcloud-browser-message', text: 'Loading...' });
+        try {
+            const files = await load();
+            loading.remove();
+            if (files.length === 0) {
+                el.createDiv({ cls: 'nextcloud-browser-message', text: 'Empty' });
+            }
+            files.forEach(file => this.renderItem(el, file));
+            this.applyFilter(el);
+        } catch (error) {
+            loading.setText(`Error: ${error.message}`);
+        }
+    }
+
+    renderItem(el: HTMLElement, file: NextcloudFile) {
+        const item = el.createDiv({ cls: 'tree-item nextcloud-browser-item' });
+        item.dataset.name = file.name.toLowerCase();
+        const self = item.createDiv({ cls: 'tree-item-self is-clickable', attr: { draggable: 'true', 'aria-label': file.path } });
+
+        if (file.type === 'folder') {
+            self.addClass('mod-collapsible');
+            const icon = self.createDiv({ cls: 'tree-item-icon collapse-icon is-collapsed' });
+            setIcon(icon, 'right-triangle');
+            item.addClass('is-collapsed');
+        }
+        setIcon(self.createDiv({ cls: 'nextcloud-browser-icon' }), mimeIcon(file));
+        self.createDiv({ cls: 'tree-item-inner', text: file.name });
+
+        const links = this.plugin.getFileLinks(file);
+
+        if (file.type === 'folder') {
+            const children = item.createDiv({ cls: 'tree-item-children' });
+            children.hide();
+            let loaded = false;
+            self.addEventListener('click', () => {
+                const collapsed = item.hasClass('is-collapsed');
+                item.toggleClass('is-collapsed', !collapsed);
+                self.querySelector('.collapse-icon')?.toggleClass('is-collapsed', !collapsed);
+                children.toggle(collapsed);
+                if (collapsed && !loaded) {
+                    loaded = true;
+                    void this.renderFolder(children, file.path);
+                }
+            });
+            self.addEventListener('dblclick', () => this.navigate(file.path));
+        } else {
+            self.addEventListener('click', () => window.open(links.link));
+        }
+
+        // Dropped into the editor as a Markdown link
+        self.addEventListener('dragstart', (event: DragEvent) => {
+            event.dataTransfer?.setData('text/plain', markdownLink(file.name, links.link));
+        });
+
+        self.addEventListener('contextmenu', (event: MouseEvent) => {
+            const menu = new Menu();
+            if (file.type === 'folder') {
+                menu.addItem(menuItem => menuItem
+                    .setTitle('Browse this folder')
+                    .setIcon('folder-tree')
+                    .onClick(() => this.navigate(file.path)));
+            }
+            menu.addItem(menuItem => menuItem
+                .setTitle('Copy path')
+                .setIcon('clipboard-copy')
+                .onClick(async () => {
+                    await navigator.clipboard.writeText(file.path);
+                    new Notice('Path copied to clipboard');
+                }));
+            menu.addItem(menuItem => menuItem
+                .setTitle('Insert nextcloud block')
+                .setIcon('code')
+                .onClick(() => this.plugin.insertAtCursor(this.blockFor(file))));
+            menu.addSeparator();
+            this.plugin.addFileMenuItems(menu, file, links);
+            menu.showAtMouseEvent(event);
+        });
+    }
+
+    // A List Files block for the folder, or for the folder containing a file
+    blockFor(file: NextcloudFile): string {
+        const folder = file.type === 'folder' ? file.path : file.path.substring(0, file.path.lastIndexOf('/')) || '/';
+        const lines = ['```nextcloud', 'command: List Files'];
+        if (this.account) {
+            lines.push(`account: ${this.plugin.getAccount(this.account).name}`);
+        }
+        lines.push(`folder: ${folder}`, '```', '');
+        return lines.join('\n');
+    }
+
+    // Hide loaded items that don't match the filter, keeping folders with matching descendants
+    applyFilter(el: HTMLElement): boolean {
+        let anyVisible = false;
+        el.querySelectorAll<HTMLElement>(':scope > .nextcloud-browser-item').forEach(item => {
+            const children = item.querySelector<HTMLElement>(':scope > .tree-item-children');
+            const childMatches = children ? this.applyFilter(children) : false;
+            const visible = !this.filter || item.dataset.name.includes(this.filter) || childMatches;
+            item.toggle(visible);
+            anyVisible = anyVisible || visible;
+        });
+        return anyVisible;
+    }
+}
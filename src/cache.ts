@@ -0,0 +1,79 @@
+// Cache of parsed listings, persisted next to the plugin's data so blocks still render offline.
+import { DataAdapter, debounce } from 'obsidian';
+import { NextcloudFile } from './model';
+
+export interface CacheEntry {
+    // etag of the listed folder; Nextcloud changes it whenever anything below the folder changes
+    etag: string;
+    // When the entry was last fetched or revalidated (ms since epoch)
+    fetchedAt: number;
+    files: NextcloudFile[];
+    // Max entries was reached while fetching
+    truncated?: boolean;
+}
+
+const MAX_ENTRIES = 200;
+
+export class ListingCache {
+    private entries: Record<string, CacheEntry> = {};
+    private requestSave = debounce(() => { void this.save(); }, 2000, true);
+
+    constructor(private adapter: DataAdapter, private path: string) {}
+
+    async load() {
+        try {
+            if (await this.adapter.exists(this.path)) {
+                this.entries = JSON.parse(await this.adapter.read(this.path));
+                // Listings cached before system tags were requested
+                Object.keys(this.entries).forEach(key => this.entries[key].files.forEach(file => {
+                    if (!file.systemTags) file.systemTags = [];
+                }));
+            }
+        } catch (error) {
+            console.error('Nextcloud cache could not be read:', error);
+            this.entries = {};
+        }
+    }
+
+    async save() {
+        await this.adapter.write(this.path, JSON.stringify(this.entries));
+    }
+
+    get(key: string): CacheEntry | undefined {
+        return this.entries[key];
+    }
+
+    set(key: string, entry: CacheEntry) {
+        this.entries[key] = entry;
+
+        // Drop the least recently fetched listings once the cache grows too large
+        const keys = Object.keys(this.entries);
+        if (keys.length > MAX_ENTRIES) {
+            keys.sort((a, b) => this.entries[a].fetchedAt - this.entries[b].fetchedAt)
+                .slice(0, keys.length - MAX_ENTRIES)
+                .forEach(oldKey => delete this.entries[oldKey]);
+        }
+        this.requestSave();
+    }
+
+    touch(key: string) {
+        const entry = this.entries[key];
+        if (entry) {
+            entry.fetchedAt = Date.now();
+            this.requestSave();
+        }
+    }
+
+    // Drop every entry whose key starts with the prefix, e.g. all listings of one account
+    invalidate(prefix: string) {
+        Object.keys(this.entries)
+            .filter(key => key.startsWith(prefix))
+            .forEach(key => delete this.entries[key]);
+        this.requestSave();
+    }
+
+    async clear() {
+        this.entries = {};
+        await this.save();
+    }
+}
@@ -0,0 +1,242 @@
+// Remote file contents rendered in notes: `command: Embed` blocks and hover previews of list results.
+// Markdown goes through Obsidian's renderer, text and code become highlighted code blocks, images
+// are shown from the downloaded bytes and PDFs are drawn with Obsidian's bundled PDF.js.
+import { Component, MarkdownRenderer, loadPdfJs } from 'obsidian';
+import type NextcloudPlugin from './main';
+import { humanizeSize } from './format';
+import { download } from './importer';
+import { NextcloudFile } from './model';
+
+export type EmbedKind = 'markdown' | 'text' | 'image' | 'pdf';
+
+interface CachedContent {
+    // The file as it was when downloaded; its etag tells whether the data is still current
+    file: NextcloudFile;
+    fetchedAt: number;
+    data: ArrayBuffer;
+}
+
+const MAX_CACHED_BYTES = 50 * 1024 * 1024;
+
+// Downloaded contents by account id and path. Kept in memory only; the oldest entries are
+// dropped once they add up to more than MAX_CACHED_BYTES.
+export class ContentCache {
+    private entries = new Map<string, CachedContent>();
+    private bytes = 0;
+
+    get(key: string): CachedContent | undefined {
+        return this.entries.get(key);
+    }
+
+    set(key: string, entry: CachedContent) {
+        this.delete(key);
+        this.entries.set(key, entry);
+        this.bytes += entry.data.byteLength;
+
+        // Maps iterate in insertion order, so the first key is the oldest
+        while (this.bytes > MAX_CACHED_BYTES && this.entries.size > 1) {
+            this.delete(this.entries.keys().next().value as string);
+        }
+    }
+
+    clear() {
+        this.entries.clear();
+        this.bytes = 0;
+    }
+
+    private delete(key: string) {
+        const entry = this.entries.get(key);
+        if (entry) {
+            this.bytes -= entry.data.byteLength;
+            this.entries.delete(key);
+        }
+    }
+}
+
+export const contentKey = (accountId: string, path: string): string => `${accountId}:${path}`;
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp', 'avif'];
+
+// Code block languages for extensions whose name isn't the language
+const CODE_LANGUAGES: Record<string, string> = {
+    js: 'javascript',
+    mjs: 'javascript',
+    ts: 'typescript',
+    py: 'python',
+    rb: 'ruby',
+    rs: 'rust',
+    sh: 'bash',
+    zsh: 'bash',
+    yml: 'yaml',
+    kt: 'kotlin',
+    cs: 'csharp',
+    h: 'c',
+    hpp: 'cpp',
+    ps1: 'powershell',
+    txt: '',
+    log: ''
+};
+
+const TEXT_EXTENSIONS = ['csv', 'tsv', 'json', 'xml', 'html', 'css', 'scss', 'yaml', 'toml', 'ini', 'conf', 'sql',
+    'java', 'c', 'cpp', 'go', 'php', 'swift', 'lua', 'tex', 'diff', 'bash', ...Object.keys(CODE_LANGUAGES)];
+
+const extension = (name: string): string => name.includes('.') ? (name.split('.').pop() || '').toLowerCase() : '';
+
+export function embedKind(file: NextcloudFile): EmbedKind | null {
+    if (file.type !== 'file') return null;
+    const ext = extension(file.name);
+    const mime = file.mime.toLowerCase();
+    if (ext === 'md' || ext === 'markdown' || mime === 'text/markdown') return 'markdown';
+    if (IMAGE_EXTENSIONS.includes(ext) || mime.startsWith('image/')) return 'image';
+    if (ext === 'pdf' || mime === 'application/pdf') return 'pdf';
+    if (TEXT_EXTENSIONS.includes(ext) || mime.startsWith('text/') || mime === 'application/json' || mime === 'application/xml') return 'text';
+    return null;
+}
+
+// Why a file can't be embedded, or null if it can
+export function embedProblem(plugin: NextcloudPlugin, file: NextcloudFile): string | null {
+    if (file.type === 'folder') {
+        return `${file.path} is a folder. Use List Files to show its contents.`;
+    }
+    if (!embedKind(file)) {
+        return `${file.name} can't be embedded. Markdown, text, code, images and PDFs are supported.`;
+    }
+    const limit = plugin.settings.embedMaxSize * 1024 * 1024;
+    if (limit > 0 && file.size > limit) {
+        return `${file.name} is too large to embed (${humanizeSize(file.size)}, the limit is ${humanizeSize(limit)})`;
+    }
+    return null;
+}
+
+// Downloads the file unless the cached copy has the same etag
+export async function fetchContent(plugin: NextcloudPlugin, file: NextcloudFile): Promise<ArrayBuffer> {
+    const key = contentKey(file.account, file.path);
+    const cached = plugin.contents.get(key);
+    if (plugin.settings.cacheEnabled && cached && cached.file.etag === file.etag) {
+        return cached.data;
+    }
+
+    const data = await download(plugin, file.path, plugin.getAccount(file.account));
+    if (plugin.settings.cacheEnabled) {
+        plugin.contents.set(key, { file, fetchedAt: Date.now(), data });
+    }
+    return data;
+}
+
+// Wrap text in a fence longer than any run of backticks inside it
+function codeBlock(text: string, language: string): string {
+    let fence = '```';
+    while (text.includes(fence)) fence += '`';
+    return `${fence}${language}\n${text.replace(/\n$/, '')}\n${fence}`;
+}
+
+// Pages are rendered at this width (in CSS pixels) and scaled down to fit by the stylesheet
+const PDF_PAGE_WIDTH = 800;
+
+async function renderPdf(el: HTMLElement, data: ArrayBuffer, maxPages: number, component: Component) {
+    const pdfjs = await loadPdfJs();
+    // PDF.js takes ownership of the buffer it is given, so it gets a copy of the cached one
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(data.slice(0)) }).promise;
+    component.register(() => { void pdf.destroy(); });
+
+    const pages = Math.min(pdf.numPages, maxPages);
+    for (let number = 1; number <= pages; number++) {
+        const page = await pdf.getPage(number);
+        const scale = PDF_PAGE_WIDTH / page.getViewport({ scale: 1 }).width * window.devicePixelRatio;
+        const viewport = page.getViewport({ scale });
+        const canvas = el.createEl('canvas', { cls: 'nextcloud-embed-pdf-page' });
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+    }
+    if (pdf.numPages > pages) {
+        el.createEl('p', { cls: 'nextcloud-block-message', text: `${pdf.numPages - pages} more page${pdf.numPages - pages === 1 ? '' : 's'}` });
+    }
+}
+
+// Renders the file's contents into el. Object URLs and PDF documents are released when component unloads.
+export async function renderEmbed(plugin: NextcloudPlugin, el: HTMLElement, file: NextcloudFile, sourcePath: string, component: Component, maxPages = Infinity) {
+    const problem = embedProblem(plugin, file);
+    if (problem) {
+        throw new Error(problem);
+    }
+
+    const data = await fetchContent(plugin, file);
+    const kind = embedKind(file);
+    el.addClass(`is-${kind}`);
+
+    switch (kind) {
+        case 'markdown':
+            await MarkdownRenderer.render(plugin.app, new TextDecoder().decode(data), el, sourcePath, component);
+            break;
+        case 'text': {
+            const ext = extension(file.name);
+            const language = CODE_LANGUAGES[ext] ?? ext;
+            await MarkdownRenderer.render(plugin.app, codeBlock(new TextDecoder().decode(data), language), el, sourcePath, component);
+            break;
+        }
+        case 'image': {
+            const type = file.mime || (extension(file.name) === 'svg' ? 'image/svg+xml' : '');
+            const url = URL.createObjectURL(new Blob([data], { type }));
+            component.register(() => URL.revokeObjectURL(url));
+            el.createEl('img', { attr: { src: url, alt: file.name } });
+            break;
+        }
+        case 'pdf':
+            await renderPdf(el, data, maxPages, component);
+            break;
+    }
+}
+
+const HOVER_DELAY = 500;
+const HIDE_DELAY = 300;
+const POPOVER_HEIGHT = 400;
+
+// Shows the file's contents in a popover while the pointer rests on target. The popover stays
+// open while the pointer is over it, and closes when the block re-renders.
+export function attachHoverPreview(plugin: NextcloudPlugin, target: HTMLElement, file: NextcloudFile, sourcePath: string, component: Component) {
+    if (!plugin.settings.hoverPreviews || embedProblem(plugin, file)) return;
+
+    let showTimer = 0;
+    let hideTimer = 0;
+    let popover: HTMLElement | null = null;
+    let content: Component | null = null;
+
+    const hide = () => {
+        window.clearTimeout(showTimer);
+        window.clearTimeout(hideTimer);
+        popover?.remove();
+        popover = null;
+        if (content) component.removeChild(content);
+        content = null;
+    };
+
+    const show = () => {
+        if (popover) return;
+        const rect = target.getBoundingClientRect();
+        popover = document.body.createDiv({ cls: 'popover hover-popover nextcloud-hover-preview' });
+        // Open below the link, or above it when there isn't room
+        popover.setCssStyles(rect.bottom + POPOVER_HEIGHT > window.innerHeight && rect.top > POPOVER_HEIGHT
+            ? { bottom: `${window.innerHeight - rect.top + 4}px`, left: `${rect.left}px` }
+            : { top: `${rect.bottom + 4}px`, left: `${rect.left}px` });
+        popover.addEventListener('mouseenter', () => window.clearTimeout(hideTimer));
+        popover.addEventListener('mouseleave', () => { hideTimer = window.setTimeout(hide, HIDE_DELAY); });
+
+        const message = popover.createEl('p', { cls: 'nextcloud-block-message', text: 'Loading...' });
+        const body = createDiv({ cls: 'markdown-rendered nextcloud-embed' });
+        content = component.addChild(new Component());
+        renderEmbed(plugin, body, file, sourcePath, content, 1)
+            .then(() => message.replaceWith(body))
+            .catch(error => message.setText(`Error: ${error.message}`));
+    };
+
+    target.addEventListener('mouseenter', () => {
+        window.clearTimeout(hideTimer);
+        showTimer = window.setTimeout(show, HOVER_DELAY);
+    });
+    target.addEventListener('mouseleave', () => {
+        window.clearTimeout(showTimer);
+        hideTimer = window.setTimeout(hide, HIDE_DELAY);
+    });
+    component.register(hide);
+}
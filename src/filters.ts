@@ -0,0 +1,296 @@
+// Filter expressions: single "key: value" conditions combined with nested any/all/not groups,
+// and their evaluation against listed files.
+import { NextcloudFile } from './model';
+
+export type FilterCondition = Record<string, string>;
+
+// all: every child matches, any: at least one child matches, not: the children don't all match
+export type FilterGroup = { all: Filter[] } | { any: Filter[] } | { not: Filter[] };
+
+export type Filter = FilterCondition | FilterGroup;
+
+export const GROUP_KEYS = ['all', 'any', 'not'];
+
+// Boolean filter values: true or 1, in any case
+export const isTrue = (value: string): boolean => /^(true|1)$/i.test(value.trim());
+
+export function isFilterGroup(filter: Filter): filter is FilterGroup {
+    const keys = Object.keys(filter);
+    return keys.length === 1 && GROUP_KEYS.includes(keys[0]) && Array.isArray((filter as Record<string, unknown>)[keys[0]]);
+}
+
+export function groupOperator(group: FilterGroup): 'all' | 'any' | 'not' {
+    return Object.keys(group)[0] as 'all' | 'any' | 'not';
+}
+
+export function groupChildren(group: FilterGroup): Filter[] {
+    return (group as Record<string, Filter[]>)[groupOperator(group)];
+}
+
+// Translate a glob into a regular expression. * and ? stop at "/" unless crossSlash is set;
+// ** always crosses it. Supports [abc] character classes and {a,b} alternatives.
+export function globToRegExp(glob: string, crossSlash = false): RegExp {
+    const star = crossSlash ? '.*' : '[^/]*';
+    const single = crossSlash ? '.' : '[^/]';
+    let source = '';
+    let braces = 0;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        switch (char) {
+            case '*':
+                if (glob[i + 1] === '*') {
+                    // "**/" also matches zero folders
+                    if (glob[i + 2] === '/') {
+                        source += '(?:.*/)?';
+                        i += 2;
+                    } else {
+                        source += '.*';
+                        i++;
+                    }
+                } else {
+                    source += star;
+                }
+                break;
+            case '?':
+                source += single;
+                break;
+            case '[': {
+                const end = glob.indexOf(']', i + 1);
+                if (end === -1) {
+                    source += '\\[';
+                } else {
+                    source += '[' + glob.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+                    i = end;
+                }
+                break;
+            }
+            case '{':
+                braces++;
+                source += '(?:';
+                break;
+            case '}':
+                if (braces > 0) {
+                    braces--;
+                    source += ')';
+                } else {
+                    source += '\\}';
+                }
+                break;
+            case ',':
+                source += braces > 0 ? '|' : ',';
+                break;
+            default:
+                source += char.replace(/[.+^$()|\\/]/g, '\\$&');
+        }
+    }
+    if (braces > 0) {
+        throw new Error(`Unclosed "{" in pattern "${glob}"`);
+    }
+    return new RegExp('^' + source + '$', 'i');
+}
+
+// Accepts a plain pattern (matched case-insensitively) or /pattern/flags
+export function parseRegExp(value: string): RegExp {
+    const literal = value.match(/^\/(.*)\/([a-z]*)$/);
+    try {
+        return literal ? new RegExp(literal[1], literal[2]) : new RegExp(value, 'i');
+    } catch (error) {
+        throw new Error(`Invalid nameregex "${value}": ${error.message}`);
+    }
+}
+
+// Absolute dates, "now", or arithmetic such as "now - 10 days" and "2025-10-10 + 5 hours"
+export function parseRelativeDate(dateString: string): Date {
+    const trimmed = dateString.trim();
+    
+    // Check for "now" keyword
+    if (trimmed.toLowerCase() === 'now') {
+        return new Date();
+    }
+    
+    // Check for arithmetic expressions: "now - 10 days" or "2025-10-10 + 5 hours"
+    const arithmeticMatch = trimmed.match(/^(.+?)\s*([+-])\s*(\d+)\s*(second|minute|hour|day|week|month|year)s?$/i);
+    if (arithmeticMatch) {
+        const [, baseDateStr, operator, amount, unit] = arithmeticMatch;
+        const value = parseInt(amount);
+        const multiplier = operator === '+' ? 1 : -1;
+        
+        // Parse base date (could be "now" or an absolute date)
+        let baseDate: Date;
+        if (baseDateStr.trim().toLowerCase() === 'now') {
+            baseDate = new Date();
+        } else {
+            baseDate = new Date(baseDateStr.trim());
+        }
+        
+        // Apply the arithmetic operation
+        switch (unit.toLowerCase()) {
+            case 'second':
+                baseDate.setSeconds(baseDate.getSeconds() + (value * multiplier));
+                break;
+            case 'minute':
+                baseDate.setMinutes(baseDate.getMinutes() + (value * multiplier));
+                break;
+            case 'hour':
+                baseDate.setHours(baseDate.getHours() + (value * multiplier));
+                break;
+            case 'day':
+                baseDate.setDate(baseDate.getDate() + (value * multiplier));
+                break;
+            case 'week':
+                baseDate.setDate(baseDate.getDate() + (value * 7 * multiplier));
+                break;
+            case 'month':
+                baseDate.setMonth(baseDate.getMonth() + (value * multiplier));
+                break;
+            case 'year':
+                baseDate.setFullYear(baseDate.getFullYear() + (value * multiplier));
+                break;
+        }
+        return checkDate(baseDate, dateString);
+    }
+    
+    // Fall back to standard date parsing for absolute dates
+    return checkDate(new Date(trimmed), dateString);
+}
+
+function checkDate(date: Date, dateString: string): Date {
+    if (isNaN(date.getTime())) {
+        throw new Error(`Invalid date "${dateString.trim()}". Use YYYY-MM-DD, YYYY-MM-DDTHH:mm:ss or an expression such as "now - 10 days".`);
+    }
+    return date;
+}
+
+// Conditions in one filter and the filters in a list must all match
+export function matchesFilters(file: NextcloudFile, filters: Filter[] | undefined, parseDate: (value: string) => Date): boolean {
+    if (!filters || filters.length === 0) return true;
+
+    for (const filter of filters) {
+        if (isFilterGroup(filter)) {
+            const children = groupChildren(filter);
+            switch (groupOperator(filter)) {
+                case 'all':
+                    if (!matchesFilters(file, children, parseDate)) return false;
+                    break;
+                case 'any':
+                    if (!children.some(child => matchesFilters(file, [child], parseDate))) return false;
+                    break;
+                case 'not':
+                    if (matchesFilters(file, children, parseDate)) return false;
+                    break;
+            }
+            continue;
+        }
+
+        // Name filters: a glob or a regular expression on the file name
+        if (filter.name) {
+            if (!globToRegExp(filter.name).test(file.name)) {
+                return false;
+            }
+        }
+        if (filter.nameregex) {
+            if (!parseRegExp(filter.nameregex).test(file.name)) {
+                return false;
+            }
+        }
+
+        // Path glob, relative to the listed folder or search scope
+        if (filter.path) {
+            if (!globToRegExp(filter.path.replace(/^\//, '')).test(file.relativePath)) {
+                return false;
+            }
+        }
+
+        // Extension filter
+        if (filter.extension) {
+            const ext = file.name.split('.').pop();
+            const allowedExts = filter.extension.split(',').map((e: string) => e.trim().toLowerCase());
+            if (!ext || !allowedExts.includes(ext.toLowerCase())) {
+                return false;
+            }
+        }
+
+        // Type filter (file or folder)
+        if (filter.type) {
+            if (filter.type.toLowerCase() !== file.type) {
+                return false;
+            }
+        }
+
+        // Size filters (min/max in bytes)
+        if (filter.minsize) {
+            if (file.size < parseInt(filter.minsize)) {
+                return false;
+            }
+        }
+        if (filter.maxsize) {
+            if (file.size > parseInt(filter.maxsize)) {
+                return false;
+            }
+        }
+
+        // Favorite filter
+        if (filter.favorite !== undefined) {
+            const filterFavorite = isTrue(filter.favorite);
+            if (file.favorite !== filterFavorite) {
+                return false;
+            }
+        }
+
+        // MIME type filter; * matches any characters, like the LIKE pattern sent to the server
+        if (filter.mimetype) {
+            const filterMimes = filter.mimetype.split(',').map((m: string) => m.trim()).filter((m: string) => m);
+            if (!filterMimes.some((m: string) => globToRegExp(m, true).test(file.mime))) {
+                return false;
+            }
+        }
+
+        // Tag filter
+        if (filter.tag) {
+            const filterTags = filter.tag.split(',').map((t: string) => t.trim().toLowerCase());
+            const hasMatchingTag = filterTags.some((ft: string) => 
+                file.tags.some((t: string) => t.toLowerCase().includes(ft))
+            );
+            if (!hasMatchingTag) {
+                return false;
+            }
+        }
+
+        // Collaborative tag filter; names must match exactly, ignoring case
+        if (filter.systemtag) {
+            const filterTags = filter.systemtag.split(',').map((t: string) => t.trim().toLowerCase());
+            if (!file.systemTags.some((t: string) => filterTags.includes(t.toLowerCase()))) {
+                return false;
+            }
+        }
+
+        // Owner filter
+        if (filter.owner) {
+            if (!file.owner.toLowerCase().includes(filter.owner.toLowerCase())) {
+                return false;
+            }
+        }
+
+        // Date filters
+        if (filter.modifiedafter) {
+            if (file.mtime <= parseDate(filter.modifiedafter).getTime()) {
+                return false;
+            }
+        }
+        if (filter.modifiedbefore) {
+            if (file.mtime >= parseDate(filter.modifiedbefore).getTime()) {
+                return false;
+            }
+        }
+
+        // Has preview filter
+        if (filter.haspreview !== undefined) {
+            const filterPreview = isTrue(filter.haspreview);
+            if (file.hasPreview !== filterPreview) {
+                return false;
+            }
+        }
+    }
+    return true;
+}
@@ -0,0 +1,45 @@
+// Human-readable formatting helpers shared by the list, table and template output.
+
+const SIZE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB'];
+
+export function humanizeSize(bytes: number): string {
+    if (!bytes || bytes < 0) return '0 B';
+    const exponent = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), SIZE_UNITS.length - 1);
+    const value = bytes / Math.pow(1024, exponent);
+    return `${exponent === 0 ? value : value.toFixed(1)} ${SIZE_UNITS[exponent]}`;
+}
+
+const pad = (value: number, length = 2): string => {
+    let text = String(value);
+    while (text.length < length) text = '0' + text;
+    return text;
+};
+
+const DATE_TOKENS = /\[[^\]]*\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|A/g;
+
+// Format a date in local time with tokens such as YYYY-MM-DD HH:mm. Text in [brackets] is kept as-is.
+export function formatDate(date: Date, pattern: string): string {
+    const hours12 = date.getHours() % 12 || 12;
+    return pattern.replace(DATE_TOKENS, token => {
+        switch (token) {
+            case 'YYYY': return String(date.getFullYear());
+            case 'YY': return pad(date.getFullYear() % 100);
+            case 'MMMM': return date.toLocaleDateString(undefined, { month: 'long' });
+            case 'MMM': return date.toLocaleDateString(undefined, { month: 'short' });
+            case 'MM': return pad(date.getMonth() + 1);
+            case 'M': return String(date.getMonth() + 1);
+            case 'DD': return pad(date.getDate());
+            case 'D': return String(date.getDate());
+            case 'dddd': return date.toLocaleDateString(undefined, { weekday: 'long' });
+            case 'ddd': return date.toLocaleDateString(undefined, { weekday: 'short' });
+            case 'HH': return pad(date.getHours());
+            case 'H': return String(date.getHours());
+            case 'hh': return pad(hours12);
+            case 'h': return String(hours12);
+            case 'mm': return pad(date.getMinutes());
+            case 'ss': return pad(date.getSeconds());
+            case 'A': return date.getHours() < 12 ? 'AM' : 'PM';
+            default: return token.slice(1, -1);
+        }
+    });
+}
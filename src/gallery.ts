@@ -0,0 +1,95 @@
+// Gallery display mode (`display: gallery`): a grid of thumbnails from the Nextcloud preview endpoint.
+import { Component, Menu, Modal, setIcon } from 'obsidian';
+import type NextcloudPlugin from './main';
+import { NextcloudFile } from './model';
+
+const LIGHTBOX_SIZE = 1600;
+
+// Lucide icon shown when a file has no preview
+export function mimeIcon(file: NextcloudFile): string {
+    if (file.type === 'folder') return 'folder';
+    const mime = file.mime.toLowerCase();
+    if (mime.startsWith('image/')) return 'file-image';
+    if (mime.startsWith('video/')) return 'file-video';
+    if (mime.startsWith('audio/')) return 'file-audio';
+    if (mime === 'application/pdf' || mime.startsWith('text/')) return 'file-text';
+    if (/zip|tar|compressed|archive|rar|7z/.test(mime)) return 'file-archive';
+    if (/spreadsheet|excel|csv/.test(mime)) return 'file-spreadsheet';
+    return 'file';
+}
+
+class LightboxModal extends Modal {
+    constructor(private plugin: NextcloudPlugin, private file: NextcloudFile) {
+        super(plugin.app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.modalEl.addClass('nextcloud-lightbox');
+        this.titleEl.setText(this.file.name);
+
+        const loading = contentEl.createEl('p', { text: 'Loading preview...' });
+        this.plugin.fetchPreviewUrl(this.file, LIGHTBOX_SIZE)
+            .then(url => {
+                loading.remove();
+                const img = contentEl.createEl('img', { attr: { src: url, alt: this.file.name } });
+                img.addEventListener('click', () => this.close());
+            })
+            .catch(error => loading.setText(`Error: ${error.message}`));
+
+        const actions = contentEl.createDiv({ cls: 'nextcloud-lightbox-actions' });
+        actions.createEl('button', { text: 'Open in Nextcloud' })
+            .addEventListener('click', () => window.open(this.plugin.getFileLinks(this.file).link));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+export function renderGallery(plugin: NextcloudPlugin, el: HTMLElement, files: NextcloudFile[], thumbSize: number, pageSize: number, component: Component) {
+    const grid = el.createDiv({ cls: 'nextcloud-gallery' });
+    grid.setCssProps({ '--nextcloud-thumb-size': `${thumbSize}px` });
+
+    // Only fetch previews once tiles scroll into view
+    const observer = new IntersectionObserver(entries => {
+        entries.forEach(entry => {
+            if (!entry.isIntersecting) return;
+            observer.unobserve(entry.target);
+            (entry.target as HTMLElement).dispatchEvent(new CustomEvent('nextcloud-load-preview'));
+        });
+    }, { rootMargin: '200px' });
+    component.register(() => observer.disconnect());
+
+    plugin.renderPage(el, files, 0, pageSize, file => {
+        const tile = grid.createDiv({ cls: 'nextcloud-gallery-tile', attr: { title: file.name } });
+        const thumb = tile.createDiv({ cls: 'nextcloud-gallery-thumb' });
+        tile.createDiv({ cls: 'nextcloud-gallery-name', text: file.name });
+
+        if (file.hasPreview && file.fileid) {
+            thumb.addEventListener('nextcloud-load-preview', () => {
+                plugin.fetchPreviewUrl(file, thumbSize * window.devicePixelRatio)
+                    .then(url => {
+                        thumb.createEl('img', { attr: { src: url, alt: file.name, loading: 'lazy' } });
+                    })
+                    .catch(() => setIcon(thumb, mimeIcon(file)));
+            });
+            observer.observe(thumb);
+        } else {
+            setIcon(thumb, mimeIcon(file));
+        }
+
+        tile.addEventListener('click', () => {
+            if (file.hasPreview && file.mime.startsWith('image/')) {
+                new LightboxModal(plugin, file).open();
+            } else {
+                window.open(plugin.getFileLinks(file).link);
+            }
+        });
+        tile.addEventListener('contextmenu', (event: MouseEvent) => {
+            const menu = new Menu();
+            plugin.addFileMenuItems(menu, file, plugin.getFileLinks(file));
+            menu.showAtMouseEvent(event);
+        });
+    });
+}
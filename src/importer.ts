@@ -0,0 +1,138 @@
+// Imports Nextcloud files into the vault as attachments and keeps track of where they came from.
+import { App, FuzzySuggestModal, Notice, TFile, requestUrl } from 'obsidian';
+import type NextcloudPlugin from './main';
+import { NextcloudFile } from './model';
+import { NextcloudAccount } from './settings';
+
+export interface ImportRecord {
+    // id of the account the file was imported from; missing for imports made before accounts existed
+    account?: string;
+    remotePath: string;
+    // etag of the remote file when it was last downloaded
+    etag: string;
+    importedAt: number;
+}
+
+export async function download(plugin: NextcloudPlugin, remotePath: string, account: NextcloudAccount): Promise<ArrayBuffer> {
+    const response = await requestUrl({
+        url: plugin.getRemoteUrl(remotePath, account),
+        headers: { 'Authorization': plugin.getAuthHeader(account) }
+    });
+    return response.arrayBuffer;
+}
+
+// Downloads into the attachment folder configured in Obsidian, next to the given note if that is the setting
+export async function importFile(plugin: NextcloudPlugin, remote: NextcloudFile, sourcePath = ''): Promise<TFile> {
+    const data = await download(plugin, remote.path, plugin.getAccount(remote.account));
+    const path = await plugin.app.fileManager.getAvailablePathForAttachment(remote.name, sourcePath);
+    const file = await plugin.app.vault.createBinary(path, data);
+
+    plugin.settings.imports[file.path] = { account: remote.account, remotePath: remote.path, etag: remote.etag, importedAt: Date.now() };
+    await plugin.saveSettings();
+    return file;
+}
+
+// Import a file and embed it at the cursor of the active note, if there is one
+export async function importAndEmbed(plugin: NextcloudPlugin, remote: NextcloudFile) {
+    const activeEditor = plugin.app.workspace.activeEditor;
+    const sourcePath = activeEditor?.file?.path || '';
+    try {
+        const file = await importFile(plugin, remote, sourcePath);
+        if (activeEditor?.editor) {
+            activeEditor.editor.replaceSelection('!' + plugin.app.fileManager.generateMarkdownLink(file, sourcePath));
+        }
+        new Notice(`Imported ${remote.name} to ${file.path}`);
+    } catch (error) {
+        new Notice(`Could not import ${remote.name}: ${error.message}`);
+    }
+}
+
+// Returns true when the local copy was replaced with a newer remote version
+export async function refreshImport(plugin: NextcloudPlugin, file: TFile): Promise<boolean> {
+    const record = plugin.settings.imports[file.path];
+    if (!record) {
+        throw new Error(`${file.name} was not imported from Nextcloud`);
+    }
+
+    const account = plugin.getAccount(record.account);
+    const remote = await plugin.stat(record.remotePath, account);
+    if (remote.etag === record.etag) return false;
+
+    await plugin.app.vault.modifyBinary(file, await download(plugin, record.remotePath, account));
+    plugin.settings.imports[file.path] = { ...record, etag: remote.etag, importedAt: Date.now() };
+    await plugin.saveSettings();
+    return true;
+}
+
+export async function refreshAllImports(plugin: NextcloudPlugin) {
+    let updated = 0;
+    let failed = 0;
+    for (const path of Object.keys(plugin.settings.imports)) {
+        const file = plugin.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) continue;
+        try {
+            if (await refreshImport(plugin, file)) updated++;
+        } catch (error) {
+            console.error(`Nextcloud import refresh failed for ${path}:`, error);
+            failed++;
+        }
+    }
+    new Notice(`Refreshed imports: ${updated} updated${failed ? `, ${failed} failed` : ''}`);
+}
+
+export interface RemoteFileChoice {
+    prompt: string;
+    includeFolders: boolean;
+    onChoose: (file: NextcloudFile) => void;
+}
+
+// Picks any file from the Nextcloud drive; imports it unless told otherwise
+export class RemoteFileSuggestModal extends FuzzySuggestModal<NextcloudFile> {
+    plugin: NextcloudPlugin;
+    files: NextcloudFile[] = [];
+    choice: RemoteFileChoice;
+
+    constructor(app: App, plugin: NextcloudPlugin, choice?: RemoteFileChoice) {
+        super(app);
+        this.plugin = plugin;
+        this.choice = choice || {
+            prompt: 'Choose a file to import',
+            includeFolders: false,
+            onChoose: file => void importAndEmbed(plugin, file)
+        };
+        this.setPlaceholder('Loading files from Nextcloud...');
+    }
+
+    onOpen() {
+        super.onOpen();
+        this.plugin.fetchListing('/', this.choice.includeFolders ? undefined : [{ type: 'file' }], { depth: Infinity })
+            .then(listing => {
+                this.files = listing.files;
+                // The walk stops at Max entries, so files beyond it can't be found by typing
+                if (listing.truncated) {
+                    this.setPlaceholder(`${this.choice.prompt} (only the first ${this.plugin.settings.maxEntries} entries are listed)`);
+                    new Notice('Not all Nextcloud files are listed. Raise Max entries in the settings to see more.');
+                } else {
+                    this.setPlaceholder(this.choice.prompt);
+                }
+                // Re-run the query so the freshly loaded files show up
+                this.inputEl.dispatchEvent(new Event('input'));
+            })
+            .catch(error => {
+                new Notice(`Could not list Nextcloud files: ${error.message}`);
+                this.close();
+            });
+    }
+
+    getItems(): NextcloudFile[] {
+        return this.files;
+    }
+
+    getItemText(file: NextcloudFile): string {
+        return file.path;
+    }
+
+    onChooseItem(file: NextcloudFile) {
+        this.choice.onChoose(file);
+    }
+}
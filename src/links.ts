@@ -0,0 +1,50 @@
+// URLs pointing at files in the Nextcloud web interface and WebDAV.
+import { NextcloudFile } from './model';
+
+export interface FileLinks {
+    // Opens the file in the Nextcloud web UI
+    link: string;
+    // Direct WebDAV download (uses the browser's Nextcloud session)
+    downloadurl: string;
+    // Opens the containing folder in the Nextcloud web UI
+    folderlink: string;
+}
+
+const trimSlash = (url: string): string => url.endsWith('/') ? url.slice(0, -1) : url;
+
+const encodePath = (path: string): string => path.split('/').map(encodeURIComponent).join('/');
+
+// The web UI lives at the part of the WebDAV URL before /remote.php, unless overridden
+export function getWebBaseUrl(nextcloudUrl: string, override: string): string {
+    if (override) return trimSlash(override);
+    const index = nextcloudUrl.indexOf('/remote.php');
+    return trimSlash(index !== -1 ? nextcloudUrl.substring(0, index) : nextcloudUrl);
+}
+
+export function folderUrl(webBase: string, folder: string, scrollTo?: string): string {
+    let url = `${webBase}/index.php/apps/files/?dir=${encodeURIComponent(folder || '/')}`;
+    if (scrollTo) url += `&scrollto=${encodeURIComponent(scrollTo)}`;
+    return url;
+}
+
+export function buildFileLinks(file: NextcloudFile, webBase: string, nextcloudUrl: string): FileLinks {
+    const parent = file.path.substring(0, file.path.lastIndexOf('/')) || '/';
+    return {
+        link: file.fileid
+            ? `${webBase}/index.php/f/${encodeURIComponent(file.fileid)}`
+            : folderUrl(webBase, parent, file.name),
+        downloadurl: trimSlash(nextcloudUrl) + encodePath(file.path),
+        folderlink: folderUrl(webBase, parent)
+    };
+}
+
+// Thumbnail from the core preview endpoint; a=1 keeps the original aspect ratio
+export function previewUrl(webBase: string, fileid: string, size: number): string {
+    return `${webBase}/index.php/core/preview?fileId=${encodeURIComponent(fileid)}&x=${size}&y=${size}&a=1`;
+}
+
+// Markdown link targets may not contain unescaped spaces or parentheses
+export function markdownLink(text: string, url: string): string {
+    const escapedText = text.replace(/([[\]])/g, '\\$1');
+    return `[${escapedText}](${url.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29')})`;
+}
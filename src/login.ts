@@ -0,0 +1,122 @@
+// Nextcloud Login Flow v2: the user approves access in the browser and the server hands out an app password.
+import { RequestUrlResponse, requestUrl } from 'obsidian';
+import { NextcloudAccount } from './settings';
+import { authHeader } from './webdav';
+
+// Login tokens expire on the server after 20 minutes
+const FLOW_TIMEOUT = 20 * 60 * 1000;
+const POLL_INTERVAL = 2000;
+const USER_AGENT = 'Obsidian Nextcloud Bridge';
+
+export interface LoginResult {
+    server: string;
+    loginName: string;
+    appPassword: string;
+    // User id used in WebDAV paths; can differ from the login name (e.g. when logging in by email)
+    userId: string;
+}
+
+const trimSlash = (url: string): string => url.replace(/\/+$/, '');
+
+// response.json parses on access and throws on HTML pages, e.g. from a wrong address or a proxy error
+function readJson(response: RequestUrlResponse): any {
+    try {
+        return response.json;
+    } catch (error) {
+        return null;
+    }
+}
+
+async function fetchUserId(server: string, loginName: string, appPassword: string): Promise<string> {
+    const response = await requestUrl({
+        url: `${server}/ocs/v2.php/cloud/user?format=json`,
+        headers: {
+            'Authorization': authHeader({ username: loginName, password: appPassword }),
+            'OCS-APIRequest': 'true'
+        },
+        throw: false
+    });
+    return readJson(response)?.ocs?.data?.id || loginName;
+}
+
+// Opens the login page in the browser and resolves once the user has granted access.
+// isCancelled is checked between polls so the caller can give up early.
+export async function runLoginFlow(serverUrl: string, isCancelled: () => boolean = () => false): Promise<LoginResult> {
+    const server = trimSlash(serverUrl.trim());
+    if (!/^https?:\/\//.test(server)) {
+        throw new Error('Enter the address of your Nextcloud server, e.g. https://cloud.example.com');
+    }
+
+    const start = await requestUrl({
+        url: `${server}/index.php/login/v2`,
+        method: 'POST',
+        headers: { 'User-Agent': USER_AGENT },
+        throw: false
+    });
+    const flow = readJson(start);
+    if (start.status !== 200 || !flow?.poll) {
+        throw new Error(`Could not start sign-in (status ${start.status}). Check the server address.`);
+    }
+
+    const { token, endpoint } = flow.poll;
+    window.open(flow.login);
+
+    const deadline = Date.now() + FLOW_TIMEOUT;
+    while (Date.now() < deadline) {
+        await sleep(POLL_INTERVAL);
+        if (isCancelled()) {
+            throw new Error('Sign-in cancelled');
+        }
+
+        // The endpoint answers 404 until the user has granted access
+        const poll = await requestUrl({
+            url: endpoint,
+            method: 'POST',
+            contentType: 'application/x-www-form-urlencoded',
+            body: `token=${encodeURIComponent(token)}`,
+            throw: false
+        });
+        if (poll.status === 200) {
+            const granted = readJson(poll);
+            if (!granted?.appPassword) {
+                throw new Error('Sign-in failed: the server sent an unexpected answer');
+            }
+            const { server: loginServer, loginName, appPassword } = granted;
+            const base = trimSlash(loginServer || server);
+            return {
+                server: base,
+                loginName,
+                appPassword,
+                userId: await fetchUserId(base, loginName, appPassword)
+            };
+        }
+        if (poll.status !== 404) {
+            throw new Error(`Sign-in failed with status ${poll.status}`);
+        }
+    }
+    throw new Error('Sign-in timed out');
+}
+
+export function applyLogin(account: NextcloudAccount, result: LoginResult) {
+    account.nextcloudUrl = `${result.server}/remote.php/dav/files/${encodeURIComponent(result.userId)}/`;
+    account.username = result.loginName;
+    account.password = result.appPassword;
+    account.loginFlow = true;
+}
+
+// Deletes the app password the account authenticates with; only works for app passwords
+export async function revokeAppPassword(server: string, account: NextcloudAccount) {
+    const response = await requestUrl({
+        url: `${server}/ocs/v2.php/core/apppassword`,
+        method: 'DELETE',
+        headers: {
+            'Authorization': authHeader(account),
+            'OCS-APIRequest': 'true'
+        },
+        throw: false
+    });
+    // 401 means the password is already gone
+    if (response.status !== 200 && response.status !== 401) {
+        throw new Error(`Server returned status ${response.status}`);
+    }
+}
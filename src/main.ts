@@ -1,435 +1,804 @@
-import { Plugin, MarkdownPostProcessorContext, requestUrl } from 'obsidian';
-import { NextcloudPluginSettings, NextcloudSettingsTab, DEFAULT_SETTINGS } from './settings';
-
+import { Plugin, TFile, MarkdownPostProcessorContext, MarkdownRenderer, Component, Menu, Notice, requestUrl } from 'obsidian';
+import { NextcloudAccount, NextcloudPluginSettings, NextcloudSettingsTab, DEFAULT_SETTINGS, createAccount } from './settings';
+import { Filter, matchesFilters, parseRelativeDate } from './filters';
+import { DavClient, authHeader, davLocation, remoteUrl } from './webdav';
+import { requestUrlTransport } from './adapter';
+import { ParsedQuery, QueryDiagnostic, QueryError, formatDiagnostic, hasErrors, parseQuery } from './query';
+import { SortKey, parseSort, compareEntries } from './sort';
+import { NextcloudFile } from './model';
+import { FileLinks, buildFileLinks, getWebBaseUrl, markdownLink, previewUrl } from './links';
+import { renderTable, parseColumns } from './table';
+import { renderGallery } from './gallery';
+import { ListingCache } from './cache';
+import { ShareLinkModal, getPublicShares } from './sharing';
+import { uploadEmbeds } from './upload';
+import { SearchResult, UnifiedSearchModal, formatSearchResult, unifiedSearch } from './unifiedsearch';
+import { SyncPreviewModal, syncAll } from './sync';
+import { BROWSER_VIEW_TYPE, NextcloudBrowserView } from './browser';
+import { RemoteFileSuggestModal, importAndEmbed, refreshImport, refreshAllImports } from './importer';
+import { TagSuggestModal, toggleFavorite } from './tags';
+import { TemplateContext, fileContext, renderTemplate } from './template';
+import { NextcloudBlock } from './block';
+import { ContentCache, attachHoverPreview } from './embed';
+
+export type { NextcloudFile } from './model';
+export type { Filter } from './filters';
+export type { QueryDiagnostic };
+
+// Methods that talk to the server take an optional account name; the default account is used when it is omitted.
+// Queries with errors are rejected with an error carrying the same diagnostics validateQuery returns.
 export interface NextcloudBridgeAPI {
-    runQuery(queryText: string): Promise<string[]>;
+    validateQuery(queryText: string): QueryDiagnostic[];
+    runQuery(queryText: string, account?: string): Promise<string[]>;
+    runQueryStructured(queryText: string, account?: string): Promise<NextcloudFile[]>;
+    listFolder(path: string, depth?: number, account?: string): Promise<NextcloudFile[]>;
+    stat(path: string, account?: string): Promise<NextcloudFile>;
+    search(scope: string, filters?: Filter[], account?: string): Promise<NextcloudFile[]>;
+}
+
+export interface ListOptions {
+    // Number of folder levels to walk below the requested folder (1 = direct children only)
+    depth: number;
+    // When set, search this folder and everything under it with a server-side SEARCH instead of walking it
+    scope?: string;
+    sort?: SortKey[];
+    // Paging is applied by callers on the sorted results, see runQuery and processNextcloudBlock
+    limit?: number;
+    offset?: number;
+    // Name or id of the account to query; the default account when omitted
+    account?: string;
+    // Always ask the server instead of using a cached listing; the cache is updated with the answer
+    fresh?: boolean;
+    // Skip the cache entirely: always ask the server, never fall back to a cached listing, and don't store the answer
+    uncached?: boolean;
+    // Overrides the Max entries setting, which caps recursive listings and searches
+    maxEntries?: number;
+}
+
+export interface Listing {
+    files: NextcloudFile[];
+    // Set when the files were served from the cache without checking the server
+    cachedAt?: number;
+    // Set when the server could not be reached and a cached listing was used instead
+    offline?: boolean;
+    // etag of the listed folder or search scope
+    etag?: string;
+    // Set when Max entries was reached and the listing is incomplete
+    truncated?: boolean;
 }
 
 export default class NextcloudPlugin extends Plugin {
     settings: NextcloudPluginSettings;
     api: NextcloudBridgeAPI;
+    // Object URLs of fetched previews, keyed by file id, etag and size; revoked on unload
+    previewUrls: Map<string, Promise<string>> = new Map();
+    cache: ListingCache;
+    // Public share URLs by account id and path, loaded on demand for the {{sharelink}} placeholder
+    shareLinks: Map<string, string> = new Map();
+    syncTimer: number | null = null;
+    // Rendered nextcloud blocks of all open notes
+    blocks: Set<NextcloudBlock> = new Set();
+    // Downloaded contents of embedded and previewed files
+    contents: ContentCache = new ContentCache();
 
     async onload() {
         await this.loadSettings();
 
+        this.cache = new ListingCache(this.app.vault.adapter, `${this.manifest.dir}/cache.json`);
+        await this.cache.load();
+
         this.api = {
-            runQuery: this.runQuery.bind(this)
+            validateQuery: (queryText: string) => this.readQuery(queryText).diagnostics,
+            runQuery: this.runQuery.bind(this),
+            runQueryStructured: this.runQueryStructured.bind(this),
+            listFolder: (path: string, depth?: number, account?: string) => this.listFolder(path, depth, account),
+            stat: (path: string, account?: string) => this.stat(path, this.getAccount(account)),
+            search: this.search.bind(this)
         };
 
         this.addSettingTab(new NextcloudSettingsTab(this.app, this));
 
+        this.registerView(BROWSER_VIEW_TYPE, leaf => new NextcloudBrowserView(leaf, this));
+        this.addRibbonIcon('cloud', 'Open Nextcloud browser', () => void this.openBrowser());
+        this.addCommand({
+            id: 'open-browser',
+            name: 'Open Nextcloud browser',
+            callback: () => void this.openBrowser()
+        });
+
+        this.addCommand({
+            id: 'create-share-link',
+            name: 'Create share link',
+            callback: () => new ShareLinkModal(this.app, this).open()
+        });
+
+        this.addCommand({
+            id: 'upload-attachment-under-cursor',
+            name: 'Upload attachment under cursor to Nextcloud',
+            editorCallback: (editor, view) => {
+                if (view.file) void uploadEmbeds(this, editor, view.file.path, true);
+            }
+        });
+
+        this.addCommand({
+            id: 'upload-note-attachments',
+            name: 'Upload all attachments in current note to Nextcloud',
+            editorCallback: (editor, view) => {
+                if (view.file) void uploadEmbeds(this, editor, view.file.path, false);
+            }
+        });
+
+        this.addCommand({
+            id: 'import-file',
+            name: 'Import from Nextcloud',
+            callback: () => new RemoteFileSuggestModal(this.app, this).open()
+        });
+
+        this.addCommand({
+            id: 'toggle-favorite',
+            name: 'Add or remove a Nextcloud favorite',
+            callback: () => new RemoteFileSuggestModal(this.app, this, {
+                prompt: 'Choose a file or folder to add to or remove from favorites',
+                includeFolders: true,
+                onChoose: file => void toggleFavorite(this, file)
+            }).open()
+        });
+
+        this.addCommand({
+            id: 'edit-tags',
+            name: 'Edit tags of a Nextcloud file',
+            callback: () => new RemoteFileSuggestModal(this.app, this, {
+                prompt: 'Choose a file or folder to tag',
+                includeFolders: true,
+                onChoose: file => new TagSuggestModal(this.app, this, file).open()
+            }).open()
+        });
+
+        this.addCommand({
+            id: 'refresh-import',
+            name: 'Refresh imported file',
+            checkCallback: (checking) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || !this.settings.imports[file.path]) return false;
+                if (!checking) {
+                    refreshImport(this, file)
+                        .then(updated => new Notice(updated ? `Updated ${file.name} from Nextcloud` : `${file.name} is up to date`))
+                        .catch(error => new Notice(`Could not refresh ${file.name}: ${error.message}`));
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'refresh-all-imports',
+            name: 'Refresh all imported files',
+            callback: () => void refreshAllImports(this)
+        });
+
+        // Keep import records attached to their files as they move around the vault
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            const record = this.settings.imports[oldPath];
+            if (!record || !(file instanceof TFile)) return;
+            delete this.settings.imports[oldPath];
+            this.settings.imports[file.path] = record;
+            void this.saveSettings();
+        }));
+        this.registerEvent(this.app.vault.on('delete', file => {
+            if (!this.settings.imports[file.path]) return;
+            delete this.settings.imports[file.path];
+            void this.saveSettings();
+        }));
+
+        this.addCommand({
+            id: 'search',
+            name: 'Search Nextcloud',
+            callback: () => new UnifiedSearchModal(this.app, this).open()
+        });
+
+        this.addCommand({
+            id: 'sync',
+            name: 'Sync folders with Nextcloud',
+            callback: () => void syncAll(this)
+        });
+
+        this.addCommand({
+            id: 'sync-preview',
+            name: 'Preview sync (dry run)',
+            callback: () => new SyncPreviewModal(this.app, this).open()
+        });
+        this.scheduleSync();
+
+        this.addCommand({
+            id: 'refresh-blocks',
+            name: 'Refresh all Nextcloud blocks',
+            callback: () => {
+                if (this.blocks.size === 0) {
+                    new Notice('No Nextcloud blocks are open');
+                    return;
+                }
+                this.blocks.forEach(block => void block.refresh(true));
+            }
+        });
+
+        this.addCommand({
+            id: 'clear-cache',
+            name: 'Clear cached listings',
+            callback: async () => {
+                this.contents.clear();
+                await this.cache.clear();
+                new Notice('Nextcloud cache cleared');
+            }
+        });
+
         this.registerMarkdownCodeBlockProcessor('nextcloud', (source, el, ctx) => {
             void this.processNextcloudBlock(source, el, ctx);
         });
     }
 
-    async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    async openBrowser() {
+        const { workspace } = this.app;
+        let leaf = workspace.getLeavesOfType(BROWSER_VIEW_TYPE)[0];
+        if (!leaf) {
+            leaf = workspace.getRightLeaf(false);
+            await leaf.setViewState({ type: BROWSER_VIEW_TYPE, active: true });
+        }
+        await workspace.revealLeaf(leaf);
     }
 
-    async saveSettings() {
-        await this.saveData(this.settings);
+    scheduleSync() {
+        if (this.syncTimer !== null) {
+            window.clearInterval(this.syncTimer);
+            this.syncTimer = null;
+        }
+        if (this.settings.syncInterval > 0) {
+            this.syncTimer = window.setInterval(() => { void syncAll(this, true); }, this.settings.syncInterval * 60 * 1000);
+            this.registerInterval(this.syncTimer);
+        }
     }
 
-    parseQuery(source: string): Record<string, unknown> {
-        const lines = source.split('\n');
-        const params: Record<string, unknown> = {};
-        let currentSection = '';
+    onunload() {
+        this.previewUrls.forEach(url => {
+            url.then(objectUrl => URL.revokeObjectURL(objectUrl)).catch(() => {});
+        });
+        this.previewUrls.clear();
+        void this.cache?.save();
+    }
 
-        lines.forEach(line => {
-            const trimmedLine = line.trim();
-            if (!trimmedLine) return;
+    async loadSettings() {
+        const data = await this.loadData();
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, { accounts: [], imports: {}, syncPairs: [] }, data);
+
+        // Settings from before accounts existed hold a single set of credentials at the top level
+        const legacy = data as Partial<Omit<NextcloudAccount, 'id' | 'name'>> | null;
+        if (legacy && legacy.nextcloudUrl !== undefined && this.settings.accounts.length === 0) {
+            const account = createAccount('Default');
+            account.nextcloudUrl = legacy.nextcloudUrl || '';
+            account.username = legacy.username || '';
+            account.password = legacy.password || '';
+            account.webUrl = legacy.webUrl || '';
+            this.settings.accounts.push(account);
+            this.settings.defaultAccount = account.id;
+
+            const settings = this.settings as unknown as Record<string, unknown>;
+            ['nextcloudUrl', 'username', 'password', 'webUrl'].forEach(key => delete settings[key]);
+            await this.saveSettings();
+        }
 
-            if (trimmedLine.startsWith('filter:')) {
-                currentSection = 'filter';
-                params['filter'] = [];
-                return;
-            }
+        if (this.settings.accounts.length === 0) {
+            const account = createAccount('Default');
+            this.settings.accounts.push(account);
+            this.settings.defaultAccount = account.id;
+        }
+    }
 
-            if (currentSection === 'filter') {
-                const listMatch = trimmedLine.match(/^-\s*(\w+):\s*(.+)$/);
-                if (listMatch) {
-                    (params['filter'] as Array<Record<string, string>>).push({ [listMatch[1]]: listMatch[2].trim() });
-                    return;
-                }
-                if (!line.startsWith(' ') && !line.startsWith('\t') && !trimmedLine.startsWith('-')) {
-                    currentSection = '';
-                }
+    // Look an account up by id or (case-insensitive) name, falling back to the default account
+    getAccount(nameOrId?: string): NextcloudAccount {
+        const accounts = this.settings.accounts;
+        if (!nameOrId) {
+            const account = accounts.find(a => a.id === this.settings.defaultAccount) || accounts[0];
+            if (!account) {
+                throw new Error('Please configure Nextcloud credentials in settings.');
             }
+            return account;
+        }
 
-            if (currentSection === '') {
-                let parts = line.split(':');
-                if (parts.length < 2) {
-                    parts = line.split(';');
-                }
+        const account = accounts.find(a => a.id === nameOrId)
+            || accounts.find(a => a.name.toLowerCase() === nameOrId.toLowerCase());
+        if (!account) {
+            throw new Error(`Unknown Nextcloud account "${nameOrId}".`);
+        }
+        return account;
+    }
 
-                if (parts.length >= 2) {
-                    const key = parts[0].trim();
-                    const value = parts.slice(1).join(':').trim();
-                    if (key && value) {
-                        params[key] = value;
-                    }
-                }
-            }
-        });
-        return params;
+    async saveSettings() {
+        await this.saveData(this.settings);
+    }
+
+    // Parse and validate a query. Blocks render the diagnostics; API callers get errors as a QueryError.
+    readQuery(source: string): ParsedQuery {
+        return parseQuery(source, value => this.parseRelativeDate(value));
     }
 
     parseRelativeDate(dateString: string): Date {
-        const trimmed = dateString.trim();
-        
-        // Check for "now" keyword
-        if (trimmed.toLowerCase() === 'now') {
-            return new Date();
-        }
-        
-        // Check for arithmetic expressions: "now - 10 days" or "2025-10-10 + 5 hours"
-        const arithmeticMatch = trimmed.match(/^(.+?)\s*([+-])\s*(\d+)\s*(second|minute|hour|day|week|month|year)s?$/i);
-        if (arithmeticMatch) {
-            const [, baseDateStr, operator, amount, unit] = arithmeticMatch;
-            const value = parseInt(amount);
-            const multiplier = operator === '+' ? 1 : -1;
-            
-            // Parse base date (could be "now" or an absolute date)
-            let baseDate: Date;
-            if (baseDateStr.trim().toLowerCase() === 'now') {
-                baseDate = new Date();
-            } else {
-                baseDate = new Date(baseDateStr.trim());
-            }
-            
-            // Apply the arithmetic operation
-            switch (unit.toLowerCase()) {
-                case 'second':
-                    baseDate.setSeconds(baseDate.getSeconds() + (value * multiplier));
-                    break;
-                case 'minute':
-                    baseDate.setMinutes(baseDate.getMinutes() + (value * multiplier));
-                    break;
-                case 'hour':
-                    baseDate.setHours(baseDate.getHours() + (value * multiplier));
-                    break;
-                case 'day':
-                    baseDate.setDate(baseDate.getDate() + (value * multiplier));
-                    break;
-                case 'week':
-                    baseDate.setDate(baseDate.getDate() + (value * 7 * multiplier));
-                    break;
-                case 'month':
-                    baseDate.setMonth(baseDate.getMonth() + (value * multiplier));
-                    break;
-                case 'year':
-                    baseDate.setFullYear(baseDate.getFullYear() + (value * multiplier));
-                    break;
-            }
-            return baseDate;
+        return parseRelativeDate(dateString);
+    }
+
+    getListOptions(params: Record<string, unknown>): ListOptions {
+        const options: ListOptions = { depth: 1 };
+
+        const recursive = String(params['recursive'] || '').toLowerCase();
+        const depth = parseInt(params['depth'] as string);
+        if (typeof params['scope'] === 'string') {
+            options.depth = Infinity;
+            options.scope = params['scope'];
+        } else if (recursive === 'true' || recursive === '1') {
+            options.depth = Infinity;
+        } else if (!isNaN(depth) && depth > 0) {
+            options.depth = depth;
+        }
+
+        if (typeof params['sort'] === 'string') {
+            options.sort = parseSort(params['sort']);
+        }
+
+        const limit = parseInt(params['limit'] as string);
+        if (!isNaN(limit) && limit > 0) {
+            options.limit = limit;
+        }
+
+        const offset = parseInt(params['offset'] as string);
+        if (!isNaN(offset) && offset > 0) {
+            options.offset = offset;
         }
-        
-        // Fall back to standard date parsing for absolute dates
-        return new Date(trimmed);
+
+        if (typeof params['account'] === 'string') {
+            options.account = params['account'];
+        }
+
+        return options;
     }
 
-    async runQuery(queryText: string): Promise<string[]> {
-        const params = this.parseQuery(queryText);
+    async runQueryStructured(queryText: string, account?: string): Promise<NextcloudFile[]> {
+        const { params, diagnostics } = this.readQuery(queryText);
+        if (hasErrors(diagnostics)) {
+            throw new QueryError(diagnostics);
+        }
         if (params['command'] !== 'List Files') {
             throw new Error('Unknown command or missing parameters.');
         }
-        return await this.fetchFiles(
+        const options = this.getListOptions(params);
+        // An account passed by the caller takes precedence over the query's account: key
+        if (account) options.account = account;
+        const results = await this.listFiles(
             params['folder'] as string || '/', 
-            params['filter'] as Array<Record<string, string>> | undefined, 
-            params['format'] as string
+            params['filter'] as Filter[] | undefined, 
+            options
         );
+        const offset = options.offset || 0;
+        return options.limit ? results.slice(offset, offset + options.limit) : results.slice(offset);
     }
 
-    async processNextcloudBlock(source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext) {
-        const params = this.parseQuery(source);
+    async runQuery(queryText: string, account?: string): Promise<string[]> {
+        const { params, diagnostics } = this.readQuery(queryText);
+        if (params['command'] === 'Search') {
+            if (hasErrors(diagnostics)) {
+                throw new QueryError(diagnostics);
+            }
+            if (account) params['account'] = account;
+            const results = await this.runSearch(params);
+            if (this.usesShareLinks(params)) {
+                await this.loadShareLinks(this.getAccount(params['account'] as string));
+            }
+            return results.map(result => formatSearchResult(this, result, params['format'] as string));
+        }
 
-        if (params['command'] === 'List Files') {
-            try {
-                const results = await this.fetchFiles(
-                    params['folder'] as string || '/', 
-                    params['filter'] as Array<Record<string, string>> | undefined, 
-                    params['format'] as string
-                );
-                const ul = el.createEl('ul');
-                if (params['list-style'] === 'none') {
-                    ul.addClass('nextcloud-no-bullets');
-                }
+        const files = await this.runQueryStructured(queryText, account);
+        if (this.usesShareLinks(params)) {
+            await this.loadShareLinks(this.getAccount(account || params['account'] as string));
+        }
+        return files.map(file => this.formatFile(file, params['format'] as string));
+    }
 
-                if (results.length === 0) {
-                    el.createEl('p', { text: 'No files found matching criteria.' });
-                } else {
-                    results.forEach(result => {
-                        ul.createEl('li').setText(result);
-                    });
-                }
-            } catch (error) {
-                el.createEl('p', { text: `Error: ${error.message}` });
-            }
+    async processNextcloudBlock(source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext) {
+        const { params, diagnostics } = this.readQuery(source);
+        if (diagnostics.length > 0) {
+            const list = el.createEl('ul', { cls: 'nextcloud-diagnostics' });
+            diagnostics.forEach(diagnostic => list.createEl('li', {
+                cls: `nextcloud-diagnostic is-${diagnostic.severity}`,
+                text: formatDiagnostic(diagnostic)
+            }));
+            if (hasErrors(diagnostics)) return;
+        }
+
+        if (params['command'] === 'List Files' || params['command'] === 'Search' || params['command'] === 'Embed') {
+            // Renders and refreshes itself, and stops polling when the note is closed
+            ctx.addChild(new NextcloudBlock(this, el.createDiv({ cls: 'nextcloud-block' }), params, ctx.sourcePath));
         } else {
             el.createEl('p', { text: 'Unknown command or missing parameters.' });
         }
     }
 
-    async fetchFiles(folder: string, filters: Array<Record<string, string>> | undefined, format: string): Promise<string[]> {
-        if (!this.settings.nextcloudUrl || !this.settings.username || !this.settings.password) {
-            throw new Error('Please configure Nextcloud credentials in settings.');
+    async runSearch(params: Record<string, unknown>): Promise<SearchResult[]> {
+        const limit = parseInt(params['limit'] as string);
+        return await unifiedSearch(this, this.getAccount(params['account'] as string), {
+            term: params['query'] as string,
+            providers: String(params['providers'] || 'files').split(',').map(p => p.trim()).filter(p => p),
+            fulltext: !/^(false|0)$/i.test(params['fulltext'] as string || ''),
+            limit: limit > 0 ? limit : 10
+        });
+    }
+
+    renderResults(el: HTMLElement, results: NextcloudFile[], params: Record<string, unknown>, pageSize: number, sourcePath: string, component: Component) {
+        if (params['display'] === 'table') {
+            renderTable(this, el, results, parseColumns(params['columns']), pageSize, params['link'] as string || 'web');
+        } else if (params['display'] === 'gallery') {
+            const thumbSize = parseInt(params['thumbsize'] as string) || 128;
+            renderGallery(this, el, results, thumbSize, pageSize, component);
+        } else {
+            const ul = el.createEl('ul');
+            if (params['list-style'] === 'none') {
+                ul.addClass('nextcloud-no-bullets');
+            }
+            this.renderPage(el, results, 0, pageSize, file => {
+                this.renderListItem(ul.createEl('li'), file, params, sourcePath, component);
+            });
+        }
+    }
+
+    renderPage(el: HTMLElement, results: NextcloudFile[], start: number, pageSize: number, renderItem: (file: NextcloudFile) => void) {
+        results.slice(start, start + pageSize).forEach(renderItem);
+
+        const remaining = results.length - (start + pageSize);
+        if (remaining > 0) {
+            const button = el.createEl('button', {
+                text: `Show more (${remaining} remaining)`,
+                cls: 'nextcloud-show-more'
+            });
+            button.addEventListener('click', () => {
+                button.remove();
+                this.renderPage(el, results, start + pageSize, pageSize, renderItem);
+            });
+        }
+    }
+
+    renderListItem(li: HTMLElement, file: NextcloudFile, params: Record<string, unknown>, sourcePath: string, component: Component) {
+        const links = this.getFileLinks(file);
+        const text = this.formatFile(file, params['format'] as string);
+
+        li.addEventListener('contextmenu', (event: MouseEvent) => {
+            const menu = new Menu();
+            this.addFileMenuItems(menu, file, links);
+            menu.showAtMouseEvent(event);
+        });
+
+        if (this.renderInlineMarkdown(li, text, sourcePath, component)) {
+            attachHoverPreview(this, li, file, sourcePath, component);
+            return;
+        }
+
+        const target = params['link'] as string || 'web';
+        if (target === 'none') {
+            li.setText(text);
+            return;
+        }
+
+        const link = li.createEl('a', {
+            text,
+            href: target === 'download' ? links.downloadurl : links.link,
+            cls: 'external-link'
+        });
+        attachHoverPreview(this, link, file, sourcePath, component);
+    }
+
+    // Formats containing Markdown links are rendered as Markdown so the links stay clickable.
+    // Returns false for other text, which the caller renders itself.
+    renderInlineMarkdown(el: HTMLElement, text: string, sourcePath: string, component: Component): boolean {
+        if (!/\[[^\]]*\]\([^)]+\)/.test(text)) return false;
+
+        void MarkdownRenderer.render(this.app, text, el, sourcePath, component).then(() => {
+            // Unwrap the paragraph the renderer adds around inline content
+            const paragraph = el.querySelector(':scope > p');
+            if (paragraph) paragraph.replaceWith(...Array.from(paragraph.childNodes));
+        });
+        return true;
+    }
+
+    addFileMenuItems(menu: Menu, file: NextcloudFile, links: FileLinks) {
+        menu.addItem(item => item
+            .setTitle('Open in Nextcloud')
+            .setIcon('external-link')
+            .onClick(() => window.open(links.link)));
+        menu.addItem(item => item
+            .setTitle('Open containing folder')
+            .setIcon('folder-open')
+            .onClick(() => window.open(links.folderlink)));
+        menu.addItem(item => item
+            .setTitle('Copy link')
+            .setIcon('link')
+            .onClick(async () => {
+                await navigator.clipboard.writeText(links.link);
+                new Notice('Link copied to clipboard');
+            }));
+        menu.addItem(item => item
+            .setTitle('Copy as Markdown link')
+            .setIcon('copy')
+            .onClick(async () => {
+                await navigator.clipboard.writeText(markdownLink(file.name, links.link));
+                new Notice('Markdown link copied to clipboard');
+            }));
+        menu.addItem(item => item
+            .setTitle('Insert link at cursor')
+            .setIcon('link-2')
+            .onClick(() => this.insertAtCursor(markdownLink(file.name, links.link))));
+        if (file.type === 'file') {
+            menu.addItem(item => item
+                .setTitle('Import into vault')
+                .setIcon('download')
+                .onClick(() => void importAndEmbed(this, file)));
         }
+        menu.addItem(item => item
+            .setTitle('Create share link...')
+            .setIcon('share-2')
+            .onClick(() => new ShareLinkModal(this.app, this, file.path, file.account).open()));
+        menu.addItem(item => item
+            .setTitle(file.favorite ? 'Remove from favorites' : 'Add to favorites')
+            .setIcon('star')
+            .onClick(() => void toggleFavorite(this, file)));
+        menu.addItem(item => item
+            .setTitle('Edit tags...')
+            .setIcon('tags')
+            .onClick(() => new TagSuggestModal(this.app, this, file).open()));
+    }
 
+    usesShareLinks(params: Record<string, unknown>): boolean {
+        return JSON.stringify([params['format'], params['columns']]).includes('sharelink');
+    }
+
+    async loadShareLinks(account: NextcloudAccount) {
+        const shares = await getPublicShares(this, undefined, account);
+        Array.from(this.shareLinks.keys())
+            .filter(key => key.startsWith(account.id + ':'))
+            .forEach(key => this.shareLinks.delete(key));
+        shares.forEach(share => {
+            const key = `${account.id}:${share.path}`;
+            if (!this.shareLinks.has(key)) this.shareLinks.set(key, share.url);
+        });
+    }
+
+    insertAtCursor(text: string) {
+        const editor = this.app.workspace.activeEditor?.editor;
+        if (!editor) {
+            new Notice('Open a note in editing mode to insert the link.');
+            return;
+        }
+        editor.replaceSelection(text);
+    }
+
+    getServerUrl(account: NextcloudAccount = this.getAccount()): string {
+        return getWebBaseUrl(account.nextcloudUrl, '');
+    }
+
+    getFileLinks(file: NextcloudFile): FileLinks {
+        const account = this.getAccount(file.account);
+        return buildFileLinks(file, getWebBaseUrl(account.nextcloudUrl, account.webUrl), account.nextcloudUrl);
+    }
+
+    fetchPreviewUrl(file: NextcloudFile, size: number): Promise<string> {
+        const pixels = Math.round(size);
+        const key = `${file.account}:${file.fileid}:${file.etag}:${pixels}`;
+
+        let objectUrl = this.previewUrls.get(key);
+        if (!objectUrl) {
+            const account = this.getAccount(file.account);
+            objectUrl = requestUrl({
+                url: previewUrl(getWebBaseUrl(account.nextcloudUrl, account.webUrl), file.fileid, pixels),
+                headers: { 'Authorization': this.getAuthHeader(account) }
+            }).then(response => URL.createObjectURL(new Blob([response.arrayBuffer], {
+                type: response.headers['content-type'] || 'image/png'
+            })));
+            // Don't keep failed requests around so the next render can retry
+            objectUrl.catch(() => this.previewUrls.delete(key));
+            this.previewUrls.set(key, objectUrl);
+        }
+        return objectUrl;
+    }
+
+    getDavLocation(account: NextcloudAccount = this.getAccount()): { davUrl: string, filesRoot: string } {
+        return davLocation(account);
+    }
+
+    normalizeFolder(folder: string): string {
         let cleanFolder = folder.startsWith('/') ? folder : '/' + folder;
         if (cleanFolder !== '/' && cleanFolder.endsWith('/')) {
             cleanFolder = cleanFolder.slice(0, -1);
         }
+        return cleanFolder;
+    }
 
-        let baseUrl = this.settings.nextcloudUrl;
-        if (baseUrl.endsWith('/')) baseUrl = baseUrl.slice(0, -1);
-
-        const encodedFolder = cleanFolder.split('/').map(encodeURIComponent).join('/');
-        const url = baseUrl + encodedFolder;
-
-        // console.log('Fetching files from:', url);
-
-        const propfindBody = `<?xml version="1.0" encoding="UTF-8"?>
-<d:propfind xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns" xmlns:nc="http://nextcloud.org/ns">
-    <d:prop>
-        <d:displayname/>
-        <d:getlastmodified/>
-        <d:getcontentlength/>
-        <d:getcontenttype/>
-        <d:resourcetype/>
-        <d:creationdate/>
-        <oc:size/>
-        <oc:favorite/>
-        <oc:tags/>
-        <oc:owner-display-name/>
-        <oc:fileid/>
-        <nc:has-preview/>
-    </d:prop>
-</d:propfind>`;
-
-        const response = await requestUrl({
-            url: url,
-            method: 'PROPFIND',
-            headers: {
-                'Authorization': 'Basic ' + btoa(this.settings.username + ':' + this.settings.password),
-                'Depth': '1',
-                'Content-Type': 'application/xml'
-            },
-            body: propfindBody
-        });
+    getAuthHeader(account: NextcloudAccount = this.getAccount()): string {
+        return authHeader(account);
+    }
 
-        if (response.status >= 200 && response.status < 300) {
-            const parser = new DOMParser();
-            const xmlDoc = parser.parseFromString(response.text, "text/xml");
-            const responses = xmlDoc.querySelectorAll('response');
+    // WebDAV URL of a path below the user's root
+    getRemoteUrl(path: string, account: NextcloudAccount = this.getAccount()): string {
+        return remoteUrl(account, path);
+    }
 
-            const results: string[] = [];
+    checkCredentials(account: NextcloudAccount) {
+        if (!account.nextcloudUrl || !account.username || !account.password) {
+            throw new Error(`Please configure Nextcloud credentials for account "${account.name}" in settings.`);
+        }
+    }
 
-            responses.forEach(resp => {
-                const href = resp.querySelector('href')?.textContent;
-                const propstat = resp.querySelector('propstat prop');
-                
-                if (!href || !propstat) return;
+    davClient(account: NextcloudAccount = this.getAccount()): DavClient {
+        this.checkCredentials(account);
+        return new DavClient(requestUrlTransport, account);
+    }
 
-                const decodedHref = decodeURIComponent(href);
-                const cleanHref = decodedHref.endsWith('/') ? decodedHref.slice(0, -1) : decodedHref;
-                const cleanRequestedFolder = cleanFolder.endsWith('/') ? cleanFolder.slice(0, -1) : cleanFolder;
+    async propfind(folder: string, depth: '0' | '1', account: NextcloudAccount = this.getAccount()): Promise<NextcloudFile[]> {
+        return await this.davClient(account).propfind(folder, depth);
+    }
 
-                if (cleanHref.endsWith(cleanRequestedFolder)) {
-                    return;
-                }
+    async searchFiles(scope: string, filters: Filter[] | undefined, limit: number, account: NextcloudAccount = this.getAccount()): Promise<{ files: NextcloudFile[], remainingFilters: Filter[] }> {
+        return await this.davClient(account).search(scope, filters, value => this.parseRelativeDate(value), limit);
+    }
 
-                // Extract filepath - get the path after the base WebDAV URL
-                let filepath = decodedHref;
-                // Try to extract relative path from the full href
-                const baseUrlPath = '/remote.php/dav/files/';
-                const baseIndex = filepath.indexOf(baseUrlPath);
-                if (baseIndex !== -1) {
-                    // Skip past /remote.php/dav/files/username/
-                    const afterBase = filepath.substring(baseIndex + baseUrlPath.length);
-                    const parts = afterBase.split('/');
-                    if (parts.length > 1) {
-                        // Remove username part and keep the rest
-                        filepath = '/' + parts.slice(1).join('/');
-                    }
-                }
+    // Serve a listing from the cache while it is fresh or its folder's etag is unchanged.
+    // When the server can't be reached, a cached listing is returned and marked as offline.
+    // With fresh set, the listing is always downloaded again, and the cache updated with it.
+    async withCache(key: string, folder: string, account: NextcloudAccount, load: () => Promise<{ files: NextcloudFile[], etag: string, truncated?: boolean }>, fresh = false): Promise<Listing> {
+        if (!this.settings.cacheEnabled) {
+            return await load();
+        }
 
-                // Extract all properties
-                const displayName = propstat.querySelector('displayname')?.textContent || '';
-                let name = displayName;
-                if (!name && href) {
-                    const parts = href.split('/').filter(p => p);
-                    name = parts[parts.length - 1];
+        const entry = this.cache.get(key);
+        if (entry && !fresh) {
+            if (Date.now() - entry.fetchedAt < this.settings.cacheTtl * 60 * 1000) {
+                return { files: entry.files, cachedAt: entry.fetchedAt, etag: entry.etag, truncated: entry.truncated };
+            }
+
+            try {
+                const current = await this.stat(folder, account);
+                if (current.etag && current.etag === entry.etag) {
+                    this.cache.touch(key);
+                    return { files: entry.files, etag: entry.etag, truncated: entry.truncated };
                 }
-                if (!name) return;
-
-                const lastModified = propstat.querySelector('getlastmodified')?.textContent || '';
-                const contentLength = propstat.querySelector('getcontentlength')?.textContent || '0';
-                const contentType = propstat.querySelector('getcontenttype')?.textContent || '';
-                const resourceType = propstat.querySelector('resourcetype collection') ? 'folder' : 'file';
-                const creationDate = propstat.querySelector('creationdate')?.textContent || '';
-                const size = propstat.querySelector('size')?.textContent || contentLength;
-                const favorite = propstat.querySelector('favorite')?.textContent === '1';
-                const tagsElements = propstat.querySelectorAll('tags tag');
-                const tags: string[] = [];
-                tagsElements.forEach(tag => {
-                    const tagText = tag.textContent;
-                    if (tagText) tags.push(tagText);
-                });
-                const owner = propstat.querySelector('owner-display-name')?.textContent || '';
-                const fileId = propstat.querySelector('fileid')?.textContent || '';
-                const hasPreview = propstat.querySelector('has-preview')?.textContent === 'true';
-
-                // Apply filters
-                if (filters && filters.length > 0) {
-                    let match = true;
-                    for (const filter of filters) {
-                        // Extension filter
-                        if (filter.extension) {
-                            const ext = name.split('.').pop();
-                            const allowedExts = filter.extension.split(',').map((e: string) => e.trim().toLowerCase());
-                            if (!ext || !allowedExts.includes(ext.toLowerCase())) {
-                                match = false;
-                                break;
-                            }
-                        }
+            } catch (error) {
+                // HTTP errors carry a status; anything else means we couldn't reach the server
+                if (error.status) throw error;
+                return { files: entry.files, cachedAt: entry.fetchedAt, offline: true, etag: entry.etag, truncated: entry.truncated };
+            }
+        }
 
-                        // Type filter (file or folder)
-                        if (filter.type) {
-                            const filterType = filter.type.toLowerCase();
-                            if (filterType !== resourceType) {
-                                match = false;
-                                break;
-                            }
-                        }
+        try {
+            const result = await load();
+            this.cache.set(key, { etag: result.etag, fetchedAt: Date.now(), files: result.files, truncated: result.truncated });
+            return result;
+        } catch (error) {
+            if (entry && !error.status) {
+                return { files: entry.files, cachedAt: entry.fetchedAt, offline: true, etag: entry.etag, truncated: entry.truncated };
+            }
+            throw error;
+        }
+    }
 
-                        // Size filters (min/max in bytes)
-                        if (filter.minsize) {
-                            const minSize = parseInt(filter.minsize);
-                            if (parseInt(size) < minSize) {
-                                match = false;
-                                break;
-                            }
-                        }
-                        if (filter.maxsize) {
-                            const maxSize = parseInt(filter.maxsize);
-                            if (parseInt(size) > maxSize) {
-                                match = false;
-                                break;
-                            }
-                        }
+    // After changing favorites or tags, which don't change any etag
+    invalidateCache(account: NextcloudAccount) {
+        this.cache.invalidate(account.id + '|');
+    }
 
-                        // Favorite filter
-                        if (filter.favorite !== undefined) {
-                            const filterFavorite = filter.favorite === '1' || filter.favorite === 'true';
-                            if (favorite !== filterFavorite) {
-                                match = false;
-                                break;
-                            }
-                        }
+    async fetchListing(folder: string, filters: Filter[] | undefined, options: ListOptions = { depth: 1 }): Promise<Listing> {
+        const maxEntries = options.maxEntries ?? (this.settings.maxEntries > 0 ? this.settings.maxEntries : Infinity);
+        const account = this.getAccount(options.account);
+        let listing: Listing;
 
-                        // MIME type filter
-                        if (filter.mimetype) {
-                            const filterMimes = filter.mimetype.split(',').map((m: string) => m.trim().toLowerCase());
-                            if (!filterMimes.includes(contentType.toLowerCase())) {
-                                match = false;
-                                break;
-                            }
-                        }
+        const cached = (key: string, root: string, load: () => Promise<{ files: NextcloudFile[], etag: string, truncated?: boolean }>): Promise<Listing> =>
+            options.uncached ? load() : this.withCache(key, root, account, load, options.fresh);
 
-                        // Tag filter
-                        if (filter.tag) {
-                            const filterTags = filter.tag.split(',').map((t: string) => t.trim().toLowerCase());
-                            const hasMatchingTag = filterTags.some((ft: string) => 
-                                tags.some((t: string) => t.toLowerCase().includes(ft))
-                            );
-                            if (!hasMatchingTag) {
-                                match = false;
-                                break;
-                            }
-                        }
+        const relativeTo = (root: string, path: string): string => {
+            const prefix = root === '/' ? '/' : root + '/';
+            return path.startsWith(prefix) ? path.substring(prefix.length) : path;
+        };
 
-                        // Owner filter
-                        if (filter.owner) {
-                            if (!owner.toLowerCase().includes(filter.owner.toLowerCase())) {
-                                match = false;
-                                break;
-                            }
+        if (options.scope !== undefined) {
+            // The server evaluates what it can; only the leftover filters run client-side.
+            // Results depend on the filters, so they are part of the cache key.
+            const scope = this.normalizeFolder(options.scope);
+            const key = `${account.id}|search|${scope}|${JSON.stringify(filters || [])}`;
+            listing = await cached(key, scope, async () => {
+                const etag = (await this.stat(scope, account)).etag;
+                const { files, remainingFilters } = await this.searchFiles(scope, filters, maxEntries, account);
+                const matches: NextcloudFile[] = [];
+                files.forEach(file => {
+                    if (file.path === scope) return;
+                    file.relativePath = relativeTo(scope, file.path);
+                    if (this.matchesFilters(file, remainingFilters)) {
+                        matches.push(file);
+                    }
+                });
+                // The server stops at the limit, so reaching it means there may be more
+                return { files: matches, etag, truncated: files.length >= maxEntries };
+            });
+        } else {
+            // Walked listings are cached unfiltered so blocks with different filters can share them
+            const root = this.normalizeFolder(folder);
+            const key = `${account.id}|list|${root}|${options.depth}`;
+            listing = await cached(key, root, async () => {
+                const queue: Array<{ folder: string; level: number }> = [{ folder: root, level: 1 }];
+                const entries: NextcloudFile[] = [];
+                // Only walks into subfolders are capped; a single folder is always listed in full
+                const limit = options.depth > 1 ? maxEntries : Infinity;
+                let rootEtag = '';
+                let truncated = false;
+
+                while (queue.length > 0 && !truncated) {
+                    const current = queue.shift();
+                    const files = await this.propfind(current.folder, '1', account);
+
+                    for (const file of files) {
+                        if (file.path === current.folder) {
+                            if (current.folder === root) rootEtag = file.etag;
+                            continue;
                         }
 
-                        // Date filters
-                        if (filter.modifiedafter || filter.modifiedbefore) {
-                            const fileDate = new Date(lastModified);
-                            
-                            if (filter.modifiedafter) {
-                                const afterDate = this.parseRelativeDate(filter.modifiedafter);
-                                if (fileDate <= afterDate) {
-                                    match = false;
-                                    break;
-                                }
-                            }
-                            
-                            if (filter.modifiedbefore) {
-                                const beforeDate = this.parseRelativeDate(filter.modifiedbefore);
-                                if (fileDate >= beforeDate) {
-                                    match = false;
-                                    break;
-                                }
-                            }
+                        if (entries.length >= limit) {
+                            truncated = true;
+                            break;
                         }
+                        file.relativePath = relativeTo(root, file.path);
+                        entries.push(file);
 
-                        // Has preview filter
-                        if (filter.haspreview !== undefined) {
-                            const filterPreview = filter.haspreview === '1' || filter.haspreview === 'true';
-                            if (hasPreview !== filterPreview) {
-                                match = false;
-                                break;
-                            }
+                        if (file.type === 'folder' && current.level < options.depth) {
+                            queue.push({ folder: file.path, level: current.level + 1 });
                         }
                     }
-                    if (!match) return;
-                }
-
-                // Format output
-                if (format) {
-                    const ext = name.includes('.') ? name.split('.').pop() || '' : '';
-                    const filename = name.includes('.') ? name.substring(0, name.lastIndexOf('.')) : name;
-                    const sizeKB = (parseInt(size) / 1024).toFixed(2);
-                    const sizeMB = (parseInt(size) / (1024 * 1024)).toFixed(2);
-                    const dateObj = lastModified ? new Date(lastModified) : null;
-                    const dateFormatted = dateObj ? dateObj.toLocaleDateString() : '';
-                    const dateTimeFormatted = dateObj ? dateObj.toLocaleString() : '';
-                    
-                    let formatted = format
-                        .replace(/{{name}}/g, name)
-                        .replace(/{{filename}}/g, filename)
-                        .replace(/{{ext}}/g, ext)
-                        .replace(/{{size}}/g, size)
-                        .replace(/{{sizekb}}/g, sizeKB)
-                        .replace(/{{sizemb}}/g, sizeMB)
-                        .replace(/{{type}}/g, resourceType)
-                        .replace(/{{mimetype}}/g, contentType)
-                        .replace(/{{date}}/g, dateFormatted)
-                        .replace(/{{datetime}}/g, dateTimeFormatted)
-                        .replace(/{{modified}}/g, lastModified)
-                        .replace(/{{created}}/g, creationDate)
-                        .replace(/{{favorite}}/g, favorite ? '⭐' : '')
-                        .replace(/{{tags}}/g, tags.join(', '))
-                        .replace(/{{owner}}/g, owner)
-                        .replace(/{{fileid}}/g, fileId)
-                        .replace(/{{preview}}/g, hasPreview ? '📷' : '')
-                        .replace(/{{path}}/g, filepath);
-
-                    results.push(formatted);
-                } else {
-                    results.push(name);
                 }
+                return { files: entries, etag: rootEtag, truncated };
             });
 
-            return results;
+            // Filters apply at every level, not just the top one
+            listing = { ...listing, files: listing.files.filter(file => this.matchesFilters(file, filters)) };
+        }
 
-        } else {
-            throw new Error(`Server returned status ${response.status}`);
+        if (options.sort && options.sort.length > 0) {
+            listing.files = listing.files.slice().sort(compareEntries(options.sort));
         }
+
+        return listing;
+    }
+
+    async listFiles(folder: string, filters: Filter[] | undefined, options: ListOptions = { depth: 1 }): Promise<NextcloudFile[]> {
+        return (await this.fetchListing(folder, filters, options)).files;
+    }
+
+    matchesFilters(file: NextcloudFile, filters: Filter[] | undefined): boolean {
+        return matchesFilters(file, filters, value => this.parseRelativeDate(value));
+    }
+
+    formatFile(file: NextcloudFile, format: string): string {
+        if (!format) return file.name;
+        return renderTemplate(format, this.fileContext(file));
+    }
+
+    // Values of the file placeholders available in format templates and table columns
+    fileContext(file: NextcloudFile): TemplateContext {
+        return fileContext(file, this.getFileLinks(file), this.shareLinks.get(`${file.account}:${file.path}`) || '');
+    }
+
+    async fetchFiles(folder: string, filters: Filter[] | undefined, format: string, options: ListOptions = { depth: 1 }): Promise<string[]> {
+        const files = await this.listFiles(folder, filters, options);
+        return files.map(file => this.formatFile(file, format));
+    }
+
+    async listFolder(path: string, depth = 1, account?: string): Promise<NextcloudFile[]> {
+        return await this.listFiles(path, undefined, { depth, account });
+    }
+
+    async stat(path: string, account: NextcloudAccount = this.getAccount()): Promise<NextcloudFile> {
+        return await this.davClient(account).stat(this.normalizeFolder(path));
+    }
+
+    async search(scope: string, filters?: Filter[], account?: string): Promise<NextcloudFile[]> {
+        return await this.listFiles(scope, filters, { depth: Infinity, scope, account });
     }
 }
@@ -0,0 +1,178 @@
+// Typed representation of a Nextcloud file or folder, parsed from WebDAV multistatus responses.
+import { XMLParser } from 'fast-xml-parser';
+
+export interface NextcloudFile {
+    // id of the account the file belongs to
+    account: string;
+    // Path below the user's WebDAV root, always starting with "/" (e.g. /Documents/report.pdf)
+    path: string;
+    // Path relative to the folder a listing or search started from
+    relativePath: string;
+    name: string;
+    type: 'file' | 'folder';
+    size: number;
+    mime: string;
+    // Timestamps in milliseconds since the epoch; ctime is null when the server doesn't report it
+    mtime: number;
+    ctime: number | null;
+    fileid: string;
+    etag: string;
+    permissions: string;
+    // Legacy personal tags (oc:tags)
+    tags: string[];
+    // Names of the collaborative system tags assigned to the file
+    systemTags: string[];
+    favorite: boolean;
+    owner: string;
+    hasPreview: boolean;
+}
+
+// Properties requested by both PROPFIND listings and SEARCH queries
+export const FILE_PROPERTIES = `<d:displayname/>
+<d:getlastmodified/>
+<d:getcontentlength/>
+<d:getcontenttype/>
+<d:getetag/>
+<d:resourcetype/>
+<d:creationdate/>
+<oc:size/>
+<oc:favorite/>
+<oc:tags/>
+<nc:system-tags/>
+<oc:owner-display-name/>
+<oc:fileid/>
+<oc:permissions/>
+<nc:has-preview/>`;
+
+export const indentProperties = (indent: string): string =>
+    FILE_PROPERTIES.split('\n').map(line => indent + line).join('\n');
+
+export const propfindBody = `<?xml version="1.0" encoding="UTF-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns" xmlns:nc="http://nextcloud.org/ns">
+    <d:prop>
+${indentProperties('        ')}
+    </d:prop>
+</d:propfind>`;
+
+const parseTimestamp = (value: string): number | null => {
+    if (!value) return null;
+    const time = new Date(value).getTime();
+    return isNaN(time) ? null : time;
+};
+
+// Map an href onto a path below the WebDAV root. basePath is the decoded path of the configured URL.
+// Servers behind some proxies answer with absolute URLs instead of paths.
+export function hrefToPath(href: string, basePath: string): string {
+    const pathname = /^https?:\/\//i.test(href) ? new URL(href).pathname : href;
+    let decoded: string;
+    try {
+        decoded = decodeURIComponent(pathname);
+    } catch (error) {
+        // Not valid percent-encoding; take the href as written
+        decoded = pathname;
+    }
+    if (decoded.endsWith('/')) decoded = decoded.slice(0, -1);
+
+    if (decoded === basePath) return '/';
+    if (decoded.startsWith(basePath + '/')) {
+        return decoded.substring(basePath.length);
+    }
+
+    // Fall back to stripping /remote.php/dav/files/<user> when the href uses a different base
+    const filesPath = '/remote.php/dav/files/';
+    const filesIndex = decoded.indexOf(filesPath);
+    if (filesIndex !== -1) {
+        const parts = decoded.substring(filesIndex + filesPath.length).split('/');
+        return '/' + parts.slice(1).join('/');
+    }
+    return decoded;
+}
+
+export interface DavResource {
+    href: string;
+    // Properties the server returned with a 2xx status, by local name (namespace prefixes removed)
+    props: Record<string, unknown>;
+}
+
+// Elements that may occur more than once and are always read as lists
+const LIST_ELEMENTS = ['response', 'propstat', 'tag', 'system-tag'];
+
+const xmlParser = new XMLParser({
+    removeNSPrefix: true,
+    ignoreAttributes: true,
+    parseTagValue: false,
+    htmlEntities: true,
+    isArray: name => LIST_ELEMENTS.includes(name)
+});
+
+// Text of a property; empty for missing properties and properties with child elements
+export const propText = (props: Record<string, unknown>, name: string): string =>
+    typeof props[name] === 'string' || typeof props[name] === 'number' ? String(props[name]) : '';
+
+// Text of the repeated child elements of a property, e.g. the <oc:tag> elements of <oc:tags>
+const propList = (props: Record<string, unknown>, name: string, child: string): string[] => {
+    const value = props[name] as Record<string, unknown> | undefined;
+    const items = value && typeof value === 'object' ? value[child] : undefined;
+    return Array.isArray(items) ? items.filter(item => typeof item === 'string' && item).map(String) : [];
+};
+
+// The responses of a 207 Multi-Status body. Properties from several 2xx propstats are merged;
+// properties the server doesn't know come back in a 404 propstat and are left out.
+export function parseResources(xml: string): DavResource[] {
+    const document = xmlParser.parse(xml) as Record<string, unknown>;
+    if (!('multistatus' in document)) {
+        throw new Error('The server did not answer with a WebDAV multistatus response');
+    }
+    // An empty <d:multistatus/>, e.g. a search without results, is parsed as empty text
+    const multistatus = document['multistatus'];
+    const responses = (multistatus && typeof multistatus === 'object'
+        ? (multistatus as Record<string, unknown>)['response'] || []
+        : []) as Array<Record<string, unknown>>;
+    return responses.map(response => {
+        const props: Record<string, unknown> = {};
+        const propstats = (response['propstat'] || []) as Array<Record<string, unknown>>;
+        propstats.forEach(propstat => {
+            const status = propText(propstat, 'status');
+            if (status && !/\s2\d\d\s/.test(status + ' ')) return;
+            const prop = propstat['prop'];
+            if (prop && typeof prop === 'object') Object.assign(props, prop);
+        });
+        return { href: propText(response, 'href'), props };
+    }).filter(resource => resource.href);
+}
+
+export function parseMultistatus(xml: string, basePath: string): NextcloudFile[] {
+    const files: NextcloudFile[] = [];
+
+    parseResources(xml).forEach(({ href, props }) => {
+        const path = hrefToPath(href, basePath);
+        const name = propText(props, 'displayname') || path.split('/').pop() || '';
+        if (!name && path !== '/') return;
+
+        const contentLength = propText(props, 'getcontentlength') || '0';
+        const size = propText(props, 'size') || contentLength;
+        const resourceType = props['resourcetype'];
+
+        files.push({
+            account: '',
+            path,
+            relativePath: '',
+            name,
+            type: resourceType && typeof resourceType === 'object' && 'collection' in resourceType ? 'folder' : 'file',
+            size: parseInt(size) || 0,
+            mime: propText(props, 'getcontenttype'),
+            mtime: parseTimestamp(propText(props, 'getlastmodified')) || 0,
+            ctime: parseTimestamp(propText(props, 'creationdate')),
+            fileid: propText(props, 'fileid'),
+            etag: propText(props, 'getetag').replace(/"/g, ''),
+            permissions: propText(props, 'permissions'),
+            tags: propList(props, 'tags', 'tag'),
+            systemTags: propList(props, 'system-tags', 'system-tag'),
+            favorite: propText(props, 'favorite') === '1',
+            owner: propText(props, 'owner-display-name'),
+            hasPreview: propText(props, 'has-preview') === 'true'
+        });
+    });
+
+    return files;
+}
@@ -0,0 +1,32 @@
+// Requests to Nextcloud's OCS API (/ocs/v2.php), which wraps every answer in an { ocs: { meta, data } } envelope.
+import { requestUrl } from 'obsidian';
+import type NextcloudPlugin from './main';
+import { NextcloudAccount } from './settings';
+
+// path is relative to /ocs/v2.php, e.g. /apps/files_sharing/api/v1/shares
+export async function ocsRequest(plugin: NextcloudPlugin, account: NextcloudAccount, method: string, path: string, body?: URLSearchParams): Promise<unknown> {
+    const response = await requestUrl({
+        url: `${plugin.getServerUrl(account)}/ocs/v2.php${path}`,
+        method,
+        headers: {
+            'Authorization': plugin.getAuthHeader(account),
+            'OCS-APIRequest': 'true',
+            'Accept': 'application/json',
+            ...(body ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {})
+        },
+        body: body?.toString(),
+        throw: false
+    });
+
+    // response.json parses on access; proxy errors and maintenance pages aren't JSON
+    let ocs;
+    try {
+        ocs = response.json?.ocs;
+    } catch (error) {
+        throw new Error(`Server returned status ${response.status}`);
+    }
+    if (response.status < 200 || response.status >= 300 || !ocs) {
+        throw new Error(ocs?.meta?.message || `Server returned status ${response.status}`);
+    }
+    return ocs.data;
+}
@@ -0,0 +1,511 @@
+// Query language of nextcloud blocks: a YAML subset parsed with line numbers, checked against a schema
+// of commands, keys and filters. Plain values run to the end of the line, so formats such as
+// "{{name}} - {{date}}" need no quoting.
+import { Filter, GROUP_KEYS, globToRegExp, parseRegExp } from './filters';
+import { GROUP_FIELDS, parseSort } from './sort';
+import { FILE_PLACEHOLDERS, SEARCH_PLACEHOLDERS, checkTemplate } from './template';
+
+export interface QueryDiagnostic {
+    severity: 'error' | 'warning';
+    // 1-based line within the query text
+    line: number;
+    message: string;
+}
+
+export interface ParsedQuery {
+    params: Record<string, unknown>;
+    diagnostics: QueryDiagnostic[];
+}
+
+// Thrown to API callers when a query has errors; diagnostics also include the warnings
+export class QueryError extends Error {
+    diagnostics: QueryDiagnostic[];
+
+    constructor(diagnostics: QueryDiagnostic[]) {
+        super(diagnostics.filter(d => d.severity === 'error').map(formatDiagnostic).join('\n'));
+        this.name = 'QueryError';
+        this.diagnostics = diagnostics;
+    }
+}
+
+export const formatDiagnostic = (diagnostic: QueryDiagnostic): string => `Line ${diagnostic.line}: ${diagnostic.message}`;
+
+export const hasErrors = (diagnostics: QueryDiagnostic[]): boolean => diagnostics.some(d => d.severity === 'error');
+
+const MIN_REFRESH = 10 * 1000;
+
+// Interval of the `refresh:` key in milliseconds: "30s", "5m", "1h", or a plain number of minutes
+export function parseDuration(value: string): number {
+    const match = value.trim().toLowerCase().match(/^(\d+)\s*(s|m|h)?$/);
+    if (!match) {
+        throw new Error(`Invalid interval "${value}". Use a number followed by s, m or h, such as 5m.`);
+    }
+    const unit = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 }[match[2] as 's' | 'm' | 'h' || 'm'];
+    const interval = parseInt(match[1]) * unit;
+    if (interval < MIN_REFRESH) {
+        throw new Error(`Refresh interval must be at least ${MIN_REFRESH / 1000} seconds`);
+    }
+    return interval;
+}
+
+// Schema. A list of strings means the value must be one of them.
+type ValueType = 'text' | 'integer' | 'boolean' | 'date' | 'duration' | 'sort' | 'glob' | 'regex' | 'template' | 'filters' | 'columns' | string[];
+
+const COMMON_KEYS: Record<string, ValueType> = {
+    command: 'text',
+    account: 'text',
+    refresh: 'duration'
+};
+
+export const COMMANDS: Record<string, Record<string, ValueType>> = {
+    'List Files': {
+        folder: 'text',
+        scope: 'text',
+        recursive: 'boolean',
+        depth: 'integer',
+        filter: 'filters',
+        sort: 'sort',
+        groupby: GROUP_FIELDS,
+        limit: 'integer',
+        offset: 'integer',
+        format: 'template',
+        display: ['list', 'table', 'gallery'],
+        columns: 'columns',
+        thumbsize: 'integer',
+        link: ['web', 'download', 'none'],
+        'list-style': 'text'
+    },
+    'Search': {
+        query: 'text',
+        providers: 'text',
+        fulltext: 'boolean',
+        limit: 'integer',
+        format: 'template',
+        link: ['web', 'none'],
+        'list-style': 'text'
+    },
+    'Embed': {
+        file: 'text'
+    }
+};
+
+const REQUIRED_KEYS: Record<string, string[]> = {
+    'Search': ['query'],
+    'Embed': ['file']
+};
+
+const FILTER_KEYS: Record<string, ValueType> = {
+    extension: 'text',
+    type: ['file', 'folder'],
+    mimetype: 'text',
+    minsize: 'integer',
+    maxsize: 'integer',
+    modifiedafter: 'date',
+    modifiedbefore: 'date',
+    favorite: 'boolean',
+    tag: 'text',
+    systemtag: 'text',
+    owner: 'text',
+    haspreview: 'boolean',
+    name: 'glob',
+    nameregex: 'regex',
+    path: 'glob'
+};
+
+interface ScalarNode { kind: 'scalar'; value: string; line: number }
+interface ListNode { kind: 'list'; items: Node[]; line: number }
+interface MapNode { kind: 'map'; entries: MapEntry[]; line: number }
+interface MapEntry { key: string; value: Node; line: number }
+type Node = ScalarNode | ListNode | MapNode;
+
+interface Line {
+    indent: number;
+    text: string;
+    number: number;
+}
+
+const isListItem = (text: string): boolean => /^-(\s|$)/.test(text);
+
+const KEY_PATTERN = /^([\w-]+)\s*:(.*)$/;
+
+// Quoted scalars follow YAML; anything else is taken as written, including text that only
+// starts and ends with a quote, like "{{name}}" - "{{size}}"
+function scalarValue(raw: string): string {
+    if (raw.length >= 2 && raw.startsWith('"') && raw.endsWith('"')) {
+        try {
+            return JSON.parse(raw);
+        } catch (error) {
+            return raw;
+        }
+    }
+    if (raw.length >= 2 && raw.startsWith('\'') && raw.endsWith('\'') && /^(?:[^']|'')*$/.test(raw.slice(1, -1))) {
+        return raw.slice(1, -1).replace(/''/g, '\'');
+    }
+    return raw;
+}
+
+class Parser {
+    private pos = 0;
+    diagnostics: QueryDiagnostic[] = [];
+
+    constructor(private lines: Line[]) {}
+
+    parseDocument(): MapNode {
+        const root = this.parseMap(this.lines.length > 0 ? this.lines[0].indent : 0);
+        // Only reachable when a later line is indented less than the first one
+        while (this.pos < this.lines.length) {
+            const line = this.lines[this.pos++];
+            this.report('error', line.number, 'Unexpected indentation');
+        }
+        return root;
+    }
+
+    private report(severity: 'error' | 'warning', line: number, message: string) {
+        this.diagnostics.push({ severity, line, message });
+    }
+
+    private parseBlock(indent: number): Node {
+        return isListItem(this.lines[this.pos].text) ? this.parseList(indent) : this.parseMap(indent);
+    }
+
+    // The value of "key:" with nothing after the colon: a nested block, or empty
+    private parseNested(indent: number, lineNumber: number): Node {
+        const next = this.lines[this.pos];
+        if (next && (next.indent > indent || (next.indent === indent && isListItem(next.text)))) {
+            return this.parseBlock(next.indent);
+        }
+        return { kind: 'scalar', value: '', line: lineNumber };
+    }
+
+    private parseMap(indent: number): MapNode {
+        const node: MapNode = { kind: 'map', entries: [], line: this.lines[this.pos]?.number || 1 };
+
+        while (this.pos < this.lines.length) {
+            const line = this.lines[this.pos];
+            if (line.indent < indent) break;
+            if (line.indent > indent) {
+                this.report('error', line.number, 'Unexpected indentation');
+                this.pos++;
+                continue;
+            }
+            if (isListItem(line.text)) {
+                this.report('error', line.number, 'List item without a key to belong to');
+                this.pos++;
+                continue;
+            }
+
+            let match = line.text.match(KEY_PATTERN);
+            if (!match) {
+                // Older blocks sometimes used "key; value"
+                match = line.text.match(/^([\w-]+)\s*;(.*)$/);
+                if (match) {
+                    this.report('warning', line.number, `Use "${match[1]}: ..." instead of "${match[1]}; ..."`);
+                } else {
+                    this.report('error', line.number, `Expected "key: value" but found "${line.text}"`);
+                    this.pos++;
+                    continue;
+                }
+            }
+            this.pos++;
+
+            const key = match[1];
+            const raw = match[2].trim();
+            const value: Node = raw
+                ? { kind: 'scalar', value: scalarValue(raw), line: line.number }
+                : this.parseNested(indent, line.number);
+
+            if (node.entries.some(entry => entry.key === key)) {
+                this.report('warning', line.number, `Duplicate key "${key}"; the last one is used`);
+            }
+            node.entries.push({ key, value, line: line.number });
+        }
+        return node;
+    }
+
+    private parseList(indent: number): ListNode {
+        const node: ListNode = { kind: 'list', items: [], line: this.lines[this.pos].number };
+
+        while (this.pos < this.lines.length) {
+            const line = this.lines[this.pos];
+            if (line.indent < indent) break;
+            if (line.indent > indent) {
+                this.report('error', line.number, 'Unexpected indentation');
+                this.pos++;
+                continue;
+            }
+            // A key at the same indentation belongs to the enclosing map
+            if (!isListItem(line.text)) break;
+
+            const rest = line.text.replace(/^-\s*/, '');
+            if (!rest) {
+                this.pos++;
+                node.items.push(this.parseNested(indent, line.number));
+            } else if (KEY_PATTERN.test(rest)) {
+                // "- key: value" starts a map; following keys aligned with "key" belong to it too
+                const mapIndent = indent + line.text.length - rest.length;
+                this.lines[this.pos] = { indent: mapIndent, text: rest, number: line.number };
+                node.items.push(this.parseMap(mapIndent));
+            } else {
+                this.pos++;
+                node.items.push({ kind: 'scalar', value: scalarValue(rest), line: line.number });
+            }
+        }
+        return node;
+    }
+}
+
+function readLines(source: string): Line[] {
+    const lines: Line[] = [];
+    source.split('\n').forEach((text, index) => {
+        const trimmed = text.trim();
+        if (!trimmed || trimmed.startsWith('#')) return;
+        lines.push({ indent: text.length - text.replace(/^\s+/, '').length, text: trimmed, number: index + 1 });
+    });
+    return lines;
+}
+
+// Levenshtein distance, for "did you mean" hints
+function distance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+function suggest(value: string, candidates: string[]): string {
+    const best = candidates
+        .map(candidate => ({ candidate, score: distance(value.toLowerCase(), candidate.toLowerCase()) }))
+        .sort((a, b) => a.score - b.score)[0];
+    return best && best.score <= 2 ? ` Did you mean "${best.candidate}"?` : '';
+}
+
+class Validator {
+    diagnostics: QueryDiagnostic[] = [];
+    // Placeholders the command's format templates can use
+    private placeholders = FILE_PLACEHOLDERS;
+
+    constructor(private parseDate: (value: string) => Date) {}
+
+    private report(severity: 'error' | 'warning', line: number, message: string) {
+        this.diagnostics.push({ severity, line, message });
+    }
+
+    validate(root: MapNode) {
+        const commandEntry = root.entries.find(entry => entry.key === 'command');
+        const command = commandEntry?.value.kind === 'scalar' ? commandEntry.value.value : '';
+        const commands = Object.keys(COMMANDS);
+
+        if (!commandEntry) {
+            this.report('error', root.line, `Missing command. Use one of: ${commands.join(', ')}.`);
+            return;
+        }
+        if (!COMMANDS[command]) {
+            this.report('error', commandEntry.line, `Unknown command "${command}".${suggest(command, commands)}`);
+            return;
+        }
+
+        (REQUIRED_KEYS[command] || []).forEach(key => {
+            if (!root.entries.some(entry => entry.key === key)) {
+                this.report('error', commandEntry.line, `${command} needs a ${key}: key`);
+            }
+        });
+
+        this.placeholders = command === 'Search' ? SEARCH_PLACEHOLDERS : FILE_PLACEHOLDERS;
+        const keys: Record<string, ValueType> = { ...COMMON_KEYS, ...COMMANDS[command] };
+        root.entries.forEach(entry => {
+            const type = keys[entry.key];
+            if (!type) {
+                this.report('warning', entry.line, `Unknown key "${entry.key}" is ignored.${suggest(entry.key, Object.keys(keys))}`);
+                return;
+            }
+            this.checkValue(entry.key, type, entry.value);
+        });
+
+        if (root.entries.some(entry => entry.key === 'scope') && root.entries.some(entry => entry.key === 'folder')) {
+            const scope = root.entries.find(entry => entry.key === 'scope');
+            this.report('warning', scope.line, 'scope and folder are both set; the folder is ignored');
+        }
+    }
+
+    private checkValue(key: string, type: ValueType, node: Node) {
+        if (type === 'filters') {
+            this.checkFilters(key, node);
+            return;
+        }
+        if (type === 'columns') {
+            if (node.kind === 'map') {
+                this.report('error', node.line, 'columns must be a list or a comma-separated line');
+            }
+            return;
+        }
+        if (node.kind !== 'scalar') {
+            this.report('error', node.line, `${key} takes a single value, not a list`);
+            return;
+        }
+
+        const value = node.value;
+        if (!value) {
+            this.report('warning', node.line, `${key} has no value`);
+            return;
+        }
+
+        if (Array.isArray(type)) {
+            if (!type.some(option => option.toLowerCase() === value.toLowerCase())) {
+                this.report('error', node.line, `Invalid ${key} "${value}". Use one of: ${type.join(', ')}.`);
+            }
+            return;
+        }
+
+        try {
+            switch (type) {
+                case 'integer':
+                    if (!/^\d+$/.test(value)) throw new Error(`${key} must be a whole number, not "${value}"`);
+                    break;
+                case 'boolean':
+                    if (!/^(true|false|1|0)$/i.test(value)) throw new Error(`${key} must be true or false, not "${value}"`);
+                    break;
+                case 'date':
+                    this.parseDate(value);
+                    break;
+                case 'duration':
+                    parseDuration(value);
+                    break;
+                case 'sort':
+                    parseSort(value);
+                    break;
+                case 'glob':
+                    globToRegExp(value);
+                    break;
+                case 'regex':
+                    parseRegExp(value);
+                    break;
+                case 'template':
+                    checkTemplate(value, this.placeholders).forEach(name => {
+                        this.report('warning', node.line, `Unknown placeholder "{{${name}}}" renders as empty text.${suggest(name, this.placeholders)}`);
+                    });
+                    break;
+            }
+        } catch (error) {
+            this.report('error', node.line, error.message);
+        }
+    }
+
+    private checkFilters(key: string, node: Node) {
+        if (node.kind !== 'list') {
+            if (node.kind === 'map' || node.value) {
+                this.report('error', node.line, `${key} must be a list of "- key: value" conditions`);
+            }
+            return;
+        }
+
+        node.items.forEach(item => {
+            if (item.kind !== 'map') {
+                this.report('error', item.line, 'Expected a "- key: value" condition');
+                return;
+            }
+            item.entries.forEach(entry => {
+                if (GROUP_KEYS.includes(entry.key)) {
+                    if (entry.value.kind === 'scalar' && !entry.value.value) {
+                        this.report('warning', entry.line, `Empty ${entry.key} group`);
+                    } else {
+                        this.checkFilters(entry.key, entry.value);
+                    }
+                    return;
+                }
+                const type = FILTER_KEYS[entry.key];
+                if (!type) {
+                    this.report('error', entry.line, `Unknown filter "${entry.key}".${suggest(entry.key, Object.keys(FILTER_KEYS).concat(GROUP_KEYS))}`);
+                    return;
+                }
+                this.checkValue(entry.key, type, entry.value);
+            });
+        });
+    }
+}
+
+// Enum values in their listed spelling and booleans as "true" or "false", however they were written
+function normalizeValue(type: ValueType | undefined, value: string): string {
+    if (Array.isArray(type)) {
+        return type.find(option => option.toLowerCase() === value.toLowerCase()) ?? value;
+    }
+    if (type === 'boolean' && /^(true|false|1|0)$/i.test(value)) {
+        return /^(true|1)$/i.test(value) ? 'true' : 'false';
+    }
+    return value;
+}
+
+function toFilters(node: Node): Filter[] {
+    if (node.kind !== 'list') return [];
+
+    const filters: Filter[] = [];
+    node.items.forEach(item => {
+        if (item.kind !== 'map') return;
+
+        const condition: Record<string, string> = {};
+        const groups: Filter[] = [];
+        item.entries.forEach(entry => {
+            if (GROUP_KEYS.includes(entry.key)) {
+                groups.push({ [entry.key]: toFilters(entry.value) } as Filter);
+            } else if (entry.value.kind === 'scalar') {
+                condition[entry.key] = normalizeValue(FILTER_KEYS[entry.key], entry.value.value);
+            }
+        });
+
+        if (groups.length === 0) {
+            filters.push(condition);
+        } else if (Object.keys(condition).length === 0 && groups.length === 1) {
+            filters.push(groups[0]);
+        } else {
+            // Keys on one item all have to match, even when some of them are groups
+            filters.push({ all: Object.keys(condition).length > 0 ? [condition, ...groups] : groups });
+        }
+    });
+    return filters;
+}
+
+function toColumns(node: ListNode): Array<Record<string, string>> {
+    const columns: Array<Record<string, string>> = [];
+    node.items.forEach(item => {
+        if (item.kind === 'scalar') {
+            columns.push({ [item.value]: '' });
+        } else if (item.kind === 'map' && item.entries.length > 0) {
+            const entry = item.entries[0];
+            columns.push({ [entry.key]: entry.value.kind === 'scalar' ? entry.value.value : '' });
+        }
+    });
+    return columns;
+}
+
+export function parseQuery(source: string, parseDate: (value: string) => Date): ParsedQuery {
+    const parser = new Parser(readLines(source));
+    const root = parser.parseDocument();
+
+    const validator = new Validator(parseDate);
+    validator.validate(root);
+
+    const command = root.entries.find(entry => entry.key === 'command');
+    const keys: Record<string, ValueType> = {
+        ...COMMON_KEYS,
+        ...(command?.value.kind === 'scalar' ? COMMANDS[command.value.value] : undefined)
+    };
+
+    const params: Record<string, unknown> = {};
+    root.entries.forEach(entry => {
+        const value = entry.value;
+        if (entry.key === 'filter') {
+            params[entry.key] = toFilters(value);
+        } else if (value.kind === 'list' && entry.key === 'columns') {
+            params[entry.key] = toColumns(value);
+        } else if (value.kind === 'scalar' && value.value) {
+            params[entry.key] = normalizeValue(keys[entry.key], value.value);
+        }
+    });
+
+    const diagnostics = parser.diagnostics.concat(validator.diagnostics).sort((a, b) => a.line - b.line);
+    return { params, diagnostics };
+}
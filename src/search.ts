@@ -0,0 +1,158 @@
+// Builds WebDAV SEARCH (DAV:basicsearch) requests for Nextcloud's /remote.php/dav/ endpoint.
+// Only filters the server can evaluate are translated; everything else is handed back
+// so the caller can apply it client-side on the returned entries.
+import { indentProperties } from './model';
+import { Filter, FilterCondition, groupChildren, groupOperator, isFilterGroup, isTrue } from './filters';
+
+export interface SearchRequest {
+    body: string;
+    remainingFilters: Filter[];
+}
+
+// Filter keys that have a server-side equivalent
+const SERVER_FILTERS = ['extension', 'mimetype', 'minsize', 'maxsize', 'modifiedafter', 'modifiedbefore', 'favorite'];
+
+const escapeXml = (value: string): string => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const comparison = (operator: string, prop: string, literal: string): string =>
+    `<d:${operator}><d:prop><${prop}/></d:prop><d:literal>${escapeXml(literal)}</d:literal></d:${operator}>`;
+
+const MATCH_ALL = comparison('like', 'd:displayname', '%');
+const MATCH_NONE = `<d:not>${MATCH_ALL}</d:not>`;
+
+// Nextcloud rejects and/or operators with fewer than two operands. A where clause is mandatory,
+// so an empty "and" matches everything (and an empty "or" nothing).
+const combine = (operator: 'and' | 'or', conditions: string[]): string => {
+    if (conditions.length === 0) return operator === 'and' ? MATCH_ALL : MATCH_NONE;
+    if (conditions.length === 1) return conditions[0];
+    return `<d:${operator}>${conditions.join('')}</d:${operator}>`;
+};
+
+const splitList = (value: string): string[] => value.split(',').map(v => v.trim()).filter(v => v);
+
+// Split one "key: value" condition into server-side comparisons and the keys left for the client
+function translateCondition(filter: FilterCondition, parseDate: (value: string) => Date): { conditions: string[], clientSide: FilterCondition } {
+    const conditions: string[] = [];
+    const clientSide: FilterCondition = {};
+
+    Object.keys(filter).forEach(key => {
+        const value = filter[key];
+        if (!SERVER_FILTERS.includes(key)) {
+            clientSide[key] = value;
+            return;
+        }
+
+        switch (key) {
+            case 'extension':
+                conditions.push(combine('or', splitList(value).map(ext => comparison('like', 'd:displayname', '%.' + ext))));
+                break;
+            case 'mimetype':
+                // Allow wildcards such as image/* which map onto SQL-style LIKE patterns
+                conditions.push(combine('or', splitList(value).map(mime => mime.includes('*')
+                    ? comparison('like', 'd:getcontenttype', mime.replace(/\*/g, '%'))
+                    : comparison('eq', 'd:getcontenttype', mime))));
+                break;
+            case 'minsize':
+                conditions.push(comparison('gte', 'oc:size', String(parseInt(value))));
+                break;
+            case 'maxsize':
+                conditions.push(comparison('lte', 'oc:size', String(parseInt(value))));
+                break;
+            case 'modifiedafter':
+                conditions.push(comparison('gt', 'd:getlastmodified', String(Math.floor(parseDate(value).getTime() / 1000))));
+                break;
+            case 'modifiedbefore':
+                conditions.push(comparison('lt', 'd:getlastmodified', String(Math.floor(parseDate(value).getTime() / 1000))));
+                break;
+            case 'favorite':
+                conditions.push(comparison('eq', 'oc:favorite', isTrue(value) ? '1' : '0'));
+                break;
+        }
+    });
+
+    return { conditions, clientSide };
+}
+
+// The group as a single server-side condition, or null if any part of it has to run client-side
+function translateGroup(group: Filter, parseDate: (value: string) => Date): string | null {
+    if (!isFilterGroup(group)) {
+        const translated = translateCondition(group, parseDate);
+        return Object.keys(translated.clientSide).length === 0 ? combine('and', translated.conditions) : null;
+    }
+
+    const children = groupChildren(group).map(child => translateGroup(child, parseDate));
+    if (children.some(child => child === null)) return null;
+
+    switch (groupOperator(group)) {
+        case 'all':
+            return combine('and', children);
+        case 'any':
+            return combine('or', children);
+        case 'not':
+            return `<d:not>${combine('and', children)}</d:not>`;
+    }
+}
+
+export function buildSearchRequest(
+    scopeHref: string,
+    filters: Filter[] | undefined,
+    parseDate: (value: string) => Date,
+    limit?: number
+): SearchRequest {
+    const conditions: string[] = [];
+    const remainingFilters: Filter[] = [];
+
+    (filters || []).forEach(filter => {
+        // Groups are only sent to the server when every condition inside them can be
+        if (isFilterGroup(filter)) {
+            const condition = translateGroup(filter, parseDate);
+            if (condition !== null) {
+                conditions.push(condition);
+            } else {
+                remainingFilters.push(filter);
+            }
+            return;
+        }
+
+        const translated = translateCondition(filter, parseDate);
+        conditions.push(...translated.conditions);
+        if (Object.keys(translated.clientSide).length > 0) {
+            remainingFilters.push(translated.clientSide);
+        }
+    });
+
+    const limitClause = limit !== undefined && isFinite(limit)
+        ? `
+        <d:limit>
+            <d:nresults>${limit}</d:nresults>
+        </d:limit>`
+        : '';
+
+    const body = `<?xml version="1.0" encoding="UTF-8"?>
+<d:searchrequest xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns" xmlns:nc="http://nextcloud.org/ns">
+    <d:basicsearch>
+        <d:select>
+            <d:prop>
+${indentProperties('                ')}
+            </d:prop>
+        </d:select>
+        <d:from>
+            <d:scope>
+                <d:href>${escapeXml(scopeHref)}</d:href>
+                <d:depth>infinity</d:depth>
+            </d:scope>
+        </d:from>
+        <d:where>
+            ${combine('and', conditions)}
+        </d:where>
+        <d:orderby/>${limitClause}
+    </d:basicsearch>
+</d:searchrequest>`;
+
+    return { body, remainingFilters };
+}
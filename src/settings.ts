@@ -1,43 +1,279 @@
 import { App, PluginSettingTab, Setting, Notice, requestUrl } from 'obsidian';
 import NextcloudPlugin from './main';
+import { ImportRecord } from './importer';
+import { getWebBaseUrl } from './links';
+import { applyLogin, revokeAppPassword, runLoginFlow } from './login';
+import { SyncPair, createSyncPair, deleteManifest } from './sync';
 
-export interface NextcloudPluginSettings {
+export interface NextcloudAccount {
+    id: string;
+    // Name used by the account: key in blocks and queries
+    name: string;
     nextcloudUrl: string;
     username: string;
     password: string;
+    webUrl: string;
+    // Credentials came from Login Flow v2, so the app password can be revoked on sign-out
+    loginFlow: boolean;
+}
+
+export interface NextcloudPluginSettings {
+    accounts: NextcloudAccount[];
+    // id of the account used when a block doesn't name one
+    defaultAccount: string;
+    maxEntries: number;
+    cacheEnabled: boolean;
+    cacheTtl: number;
+    uploadFolder: string;
+    uploadLinkType: 'web' | 'share';
+    trashAfterUpload: boolean;
+    // Files imported into the vault, keyed by vault path
+    imports: Record<string, ImportRecord>;
+    syncPairs: SyncPair[];
+    // Minutes between automatic syncs; 0 syncs only on demand
+    syncInterval: number;
+    // Largest file Embed blocks and hover previews download, in MB; 0 for no limit
+    embedMaxSize: number;
+    hoverPreviews: boolean;
 }
 
 export const DEFAULT_SETTINGS: NextcloudPluginSettings = {
-    nextcloudUrl: '',
-    username: '',
-    password: ''
+    accounts: [],
+    defaultAccount: '',
+    maxEntries: 1000,
+    cacheEnabled: true,
+    cacheTtl: 5,
+    uploadFolder: '/Obsidian',
+    uploadLinkType: 'web',
+    trashAfterUpload: false,
+    imports: {},
+    syncPairs: [],
+    syncInterval: 0,
+    embedMaxSize: 10,
+    hoverPreviews: true
+}
+
+export function createAccount(name: string): NextcloudAccount {
+    return {
+        id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+        name,
+        nextcloudUrl: '',
+        username: '',
+        password: '',
+        webUrl: '',
+        loginFlow: false
+    };
 }
 
 export class NextcloudSettingsTab extends PluginSettingTab {
     plugin: NextcloudPlugin;
+    // Set while a sign-in is waiting for the browser
+    cancelLogin: (() => void) | null = null;
 
     constructor(app: App, plugin: NextcloudPlugin) {
         super(app, plugin);
         this.plugin = plugin;
     }
 
+    hide(): void {
+        this.cancelLogin?.();
+    }
+
     display(): void {
         const { containerEl } = this;
 
         containerEl.empty();
 
         new Setting(containerEl)
-            .setName('Connection')
+            .setName('Accounts')
             .setHeading();
 
+        this.plugin.settings.accounts.forEach(account => this.displayAccount(containerEl, account));
+
+        new Setting(containerEl)
+            .setDesc('Blocks use the default account unless they name another one with the account: key')
+            .addButton(button => button
+                .setButtonText('Add account')
+                .onClick(async () => {
+                    this.plugin.settings.accounts.push(createAccount(`Account ${this.plugin.settings.accounts.length + 1}`));
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('Listing')
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('Max entries')
+            .setDesc('Stop walking folders after this many entries when listing recursively or searching (0 for no limit). Blocks say when they hit the limit.')
+            .addText(text => text
+                .setPlaceholder('1000')
+                .setValue(String(this.plugin.settings.maxEntries))
+                .onChange(async (value) => {
+                    const parsed = parseInt(value);
+                    this.plugin.settings.maxEntries = isNaN(parsed) || parsed < 0 ? DEFAULT_SETTINGS.maxEntries : parsed;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Uploads')
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('Upload folder')
+            .setDesc('Nextcloud folder that vault attachments are uploaded to. Missing folders are created.')
+            .addText(text => text
+                .setPlaceholder('/Obsidian')
+                .setValue(this.plugin.settings.uploadFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.uploadFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Replace embeds with')
+            .setDesc('Link that replaces an embed after its attachment has been uploaded')
+            .addDropdown(dropdown => dropdown
+                .addOption('web', 'Nextcloud link (requires login)')
+                .addOption('share', 'Public share link')
+                .setValue(this.plugin.settings.uploadLinkType)
+                .onChange(async (value) => {
+                    this.plugin.settings.uploadLinkType = value as 'web' | 'share';
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Move uploaded attachments to trash')
+            .setDesc('Delete the local copy after a verified upload, unless other notes still use it')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.trashAfterUpload)
+                .onChange(async (value) => {
+                    this.plugin.settings.trashAfterUpload = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Sync')
+            .setHeading();
+
+        this.plugin.settings.syncPairs.forEach(pair => this.displaySyncPair(containerEl, pair));
+
+        new Setting(containerEl)
+            .setDesc('Keep vault folders and Nextcloud folders in sync in both directions')
+            .addButton(button => button
+                .setButtonText('Add sync folder')
+                .onClick(async () => {
+                    this.plugin.settings.syncPairs.push(createSyncPair());
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('Sync interval')
+            .setDesc('Minutes between automatic syncs. Use 0 to sync only with the Sync command.')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.syncInterval))
+                .onChange(async (value) => {
+                    const parsed = parseFloat(value);
+                    this.plugin.settings.syncInterval = isNaN(parsed) || parsed < 0 ? DEFAULT_SETTINGS.syncInterval : parsed;
+                    await this.plugin.saveSettings();
+                    this.plugin.scheduleSync();
+                }));
+
+        new Setting(containerEl)
+            .setName('Embeds')
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('Max embed size')
+            .setDesc('Largest file, in MB, that Embed blocks and hover previews download (0 for no limit)')
+            .addText(text => text
+                .setPlaceholder('10')
+                .setValue(String(this.plugin.settings.embedMaxSize))
+                .onChange(async (value) => {
+                    const parsed = parseFloat(value);
+                    this.plugin.settings.embedMaxSize = isNaN(parsed) || parsed < 0 ? DEFAULT_SETTINGS.embedMaxSize : parsed;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Hover previews')
+            .setDesc('Show the contents of Markdown, text, image and PDF files when hovering over their links in list blocks')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.hoverPreviews)
+                .onChange(async (value) => {
+                    this.plugin.settings.hoverPreviews = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Cache')
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('Cache listings')
+            .setDesc('Keep fetched listings and embedded files so notes render quickly and still show results while offline. Embedded files are kept until Obsidian closes.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.cacheEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.cacheEnabled = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Cache lifetime')
+            .setDesc('Minutes a cached listing is used without asking the server. After that it is revalidated using the folder\'s etag.')
+            .addText(text => text
+                .setPlaceholder('5')
+                .setValue(String(this.plugin.settings.cacheTtl))
+                .onChange(async (value) => {
+                    const parsed = parseFloat(value);
+                    this.plugin.settings.cacheTtl = isNaN(parsed) || parsed < 0 ? DEFAULT_SETTINGS.cacheTtl : parsed;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Clear cache')
+            .setDesc('Remove all cached listings and embedded files')
+            .addButton(button => button
+                .setButtonText('Clear')
+                .onClick(async () => {
+                    this.plugin.contents.clear();
+                    await this.plugin.cache.clear();
+                    new Notice('Nextcloud cache cleared');
+                }));
+    }
+
+    displayAccount(containerEl: HTMLElement, account: NextcloudAccount): void {
+        const isDefault = account.id === this.plugin.settings.defaultAccount;
+        const heading = new Setting(containerEl)
+            .setName(account.name + (isDefault ? ' (default)' : ''))
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('Account name')
+            .setDesc('Refer to this account in blocks with account: followed by this name')
+            .addText(text => text
+                .setPlaceholder('Work')
+                .setValue(account.name)
+                .onChange(async (value) => {
+                    account.name = value.trim();
+                    heading.setName(account.name + (isDefault ? ' (default)' : ''));
+                    await this.plugin.saveSettings();
+                }));
+
+        this.displaySignIn(containerEl, account);
+
         new Setting(containerEl)
             .setName('Nextcloud URL')
             .setDesc('The base URL of your Nextcloud instance (e.g., https://cloud.example.com/remote.php/dav/files/username/)')
             .addText(text => text
                 .setPlaceholder('https://cloud.example.com/remote.php/dav/files/username/')
-                .setValue(this.plugin.settings.nextcloudUrl)
+                .setValue(account.nextcloudUrl)
                 .onChange(async (value) => {
-                    this.plugin.settings.nextcloudUrl = value;
+                    account.nextcloudUrl = value;
                     await this.plugin.saveSettings();
                 }));
 
@@ -46,9 +282,9 @@ export class NextcloudSettingsTab extends PluginSettingTab {
             .setDesc('Your nextcloud username')
             .addText(text => text
                 .setPlaceholder('Username')
-                .setValue(this.plugin.settings.username)
+                .setValue(account.username)
                 .onChange(async (value) => {
-                    this.plugin.settings.username = value;
+                    account.username = value;
                     await this.plugin.saveSettings();
                 }));
 
@@ -57,30 +293,41 @@ export class NextcloudSettingsTab extends PluginSettingTab {
             .setDesc('Your nextcloud password or app password (recommended)')
             .addText(text => text
                 .setPlaceholder('Password')
-                .setValue(this.plugin.settings.password)
+                .setValue(account.password)
                 .onChange(async (value) => {
-                    this.plugin.settings.password = value;
+                    account.password = value;
                     await this.plugin.saveSettings();
                 })
                 .inputEl.type = 'password');
 
+        new Setting(containerEl)
+            .setName('Web interface URL')
+            .setDesc('Base URL used for links to the Nextcloud web interface. Leave empty to derive it from the Nextcloud URL.')
+            .addText(text => text
+                .setPlaceholder('https://cloud.example.com')
+                .setValue(account.webUrl)
+                .onChange(async (value) => {
+                    account.webUrl = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
         new Setting(containerEl)
             .setName('Test connection')
-            .setDesc('Verify your nextcloud credentials')
+            .setDesc('Verify the credentials of this account')
             .addButton(button => button
                 .setButtonText('Test')
                 .onClick(async () => {
                     button.setButtonText('Testing...');
                     button.setDisabled(true);
                     try {
-                        // console.log('Testing connection to:', this.plugin.settings.nextcloudUrl);
+                        // console.log('Testing connection to:', account.nextcloudUrl);
 
                         // Try direct requestUrl to bypass CORS
                         const response = await requestUrl({
-                            url: this.plugin.settings.nextcloudUrl,
+                            url: account.nextcloudUrl,
                             method: 'PROPFIND',
                             headers: {
-                                'Authorization': 'Basic ' + btoa(this.plugin.settings.username + ':' + this.plugin.settings.password),
+                                'Authorization': this.plugin.getAuthHeader(account),
                                 'Depth': '1'
                             }
                         });
@@ -110,5 +357,144 @@ export class NextcloudSettingsTab extends PluginSettingTab {
                         setTimeout(() => button.setButtonText('Test'), 2000);
                     }
                 }));
+
+        const actions = new Setting(containerEl);
+        if (!isDefault) {
+            actions.addButton(button => button
+                .setButtonText('Make default')
+                .onClick(async () => {
+                    this.plugin.settings.defaultAccount = account.id;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+        }
+        if (this.plugin.settings.accounts.length > 1) {
+            actions.addButton(button => button
+                .setButtonText('Remove account')
+                .setWarning()
+                .onClick(async () => {
+                    // Sync pairs and imports keep syncing with the account they were made with; an empty id means the default
+                    const uses = (id?: string) => id === account.id || (isDefault && !id);
+                    const pairs = this.plugin.settings.syncPairs.filter(pair => uses(pair.account)).length;
+                    const imports = Object.keys(this.plugin.settings.imports).filter(path => uses(this.plugin.settings.imports[path].account)).length;
+                    if (pairs > 0 || imports > 0) {
+                        const usedBy = [
+                            pairs > 0 ? `${pairs} sync folder${pairs === 1 ? '' : 's'}` : '',
+                            imports > 0 ? `${imports} imported file${imports === 1 ? '' : 's'}` : ''
+                        ].filter(part => part).join(' and ');
+                        new Notice(`${account.name} is still used by ${usedBy}. Remove those first.`);
+                        return;
+                    }
+                    this.plugin.invalidateCache(account);
+                    this.plugin.settings.accounts.remove(account);
+                    if (isDefault) {
+                        this.plugin.settings.defaultAccount = this.plugin.settings.accounts[0].id;
+                    }
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+        }
+    }
+
+    displaySignIn(containerEl: HTMLElement, account: NextcloudAccount): void {
+        const server = getWebBaseUrl(account.nextcloudUrl, '');
+
+        if (account.loginFlow && account.password) {
+            new Setting(containerEl)
+                .setName('Signed in')
+                .setDesc(`As ${account.username} on ${server}`)
+                .addButton(button => button
+                    .setButtonText('Sign out')
+                    .onClick(async () => {
+                        button.setDisabled(true);
+                        try {
+                            await revokeAppPassword(server, account);
+                        } catch (error) {
+                            new Notice(`Could not revoke the app password: ${error.message}`);
+                            button.setDisabled(false);
+                            return;
+                        }
+                        account.username = '';
+                        account.password = '';
+                        account.loginFlow = false;
+                        await this.plugin.saveSettings();
+                        new Notice('Signed out of Nextcloud');
+                        this.display();
+                    }));
+            return;
+        }
+
+        let serverUrl = server;
+        new Setting(containerEl)
+            .setName('Sign in with Nextcloud')
+            .setDesc('Enter the server address and approve access in the browser. This fills in the fields below with a new app password.')
+            .addText(text => text
+                .setPlaceholder('https://cloud.example.com')
+                .setValue(serverUrl)
+                .onChange(value => serverUrl = value))
+            .addButton(button => button
+                .setButtonText('Sign in')
+                .setCta()
+                .onClick(async () => {
+                    // A second click while waiting cancels the sign-in
+                    if (this.cancelLogin) {
+                        this.cancelLogin();
+                        return;
+                    }
+
+                    let cancelled = false;
+                    this.cancelLogin = () => cancelled = true;
+                    button.setButtonText('Cancel');
+                    try {
+                        applyLogin(account, await runLoginFlow(serverUrl, () => cancelled));
+                        await this.plugin.saveSettings();
+                        new Notice(`Signed in to Nextcloud as ${account.username}`);
+                    } catch (error) {
+                        if (!cancelled) new Notice(`Sign-in failed: ${error.message}`);
+                    } finally {
+                        this.cancelLogin = null;
+                        if (!cancelled) this.display();
+                        else button.setButtonText('Sign in');
+                    }
+                }));
+    }
+
+    displaySyncPair(containerEl: HTMLElement, pair: SyncPair): void {
+        new Setting(containerEl)
+            .setName('Sync folder')
+            .setDesc('Vault folder, Nextcloud folder and account')
+            .addText(text => text
+                .setPlaceholder('Shared')
+                .setValue(pair.localFolder)
+                .onChange(async (value) => {
+                    pair.localFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }))
+            .addText(text => text
+                .setPlaceholder('/Team/Notes')
+                .setValue(pair.remoteFolder)
+                .onChange(async (value) => {
+                    pair.remoteFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }))
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Default account');
+                this.plugin.settings.accounts.forEach(account => dropdown.addOption(account.id, account.name));
+                dropdown
+                    .setValue(pair.account)
+                    .onChange(async (value) => {
+                        pair.account = value;
+                        await this.plugin.saveSettings();
+                    });
+            })
+            .addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('Stop syncing this folder')
+                .onClick(async () => {
+                    this.plugin.settings.syncPairs.remove(pair);
+                    await deleteManifest(this.plugin, pair);
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
     }
 }
@@ -0,0 +1,156 @@
+// Public share links through the OCS Files Sharing API.
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type NextcloudPlugin from './main';
+import { markdownLink } from './links';
+import { NextcloudAccount } from './settings';
+import { ocsRequest } from './ocs';
+
+const SHARE_TYPE_PUBLIC_LINK = 3;
+
+export type SharePermission = 'read' | 'edit' | 'filedrop';
+
+export interface ShareOptions {
+    password?: string;
+    // YYYY-MM-DD
+    expireDate?: string;
+    permission: SharePermission;
+}
+
+interface OcsShare {
+    id: string;
+    share_type: number;
+    path: string;
+    url: string;
+    permissions: number;
+    expiration: string | null;
+    share_with: string | null;
+}
+
+// Nextcloud permission bits: 1 read, 2 update, 4 create, 8 delete
+function permissionBits(permission: SharePermission, isFolder: boolean): number {
+    switch (permission) {
+        case 'read':
+            return 1;
+        case 'edit':
+            return isFolder ? 15 : 3;
+        case 'filedrop':
+            return 4;
+    }
+}
+
+const SHARES_PATH = '/apps/files_sharing/api/v1/shares';
+
+// All public links owned by the user, or only those for one path
+export async function getPublicShares(plugin: NextcloudPlugin, path?: string, account = plugin.getAccount()): Promise<OcsShare[]> {
+    const query = path ? `?path=${encodeURIComponent(path)}&reshares=true` : '';
+    const shares = await ocsRequest(plugin, account, 'GET', SHARES_PATH + query) as OcsShare[];
+    return shares.filter(share => share.share_type === SHARE_TYPE_PUBLIC_LINK);
+}
+
+export async function createShareLink(plugin: NextcloudPlugin, path: string, options: ShareOptions, account = plugin.getAccount()): Promise<string> {
+    const file = await plugin.stat(path, account);
+    const permissions = permissionBits(options.permission, file.type === 'folder');
+
+    // Reuse an existing plain link with the same permissions instead of piling up new ones
+    if (!options.password && !options.expireDate) {
+        const existing = (await getPublicShares(plugin, file.path, account))
+            .find(share => share.permissions === permissions && !share.expiration && !share.share_with);
+        if (existing) return existing.url;
+    }
+
+    const body = new URLSearchParams();
+    body.set('path', file.path);
+    body.set('shareType', String(SHARE_TYPE_PUBLIC_LINK));
+    body.set('permissions', String(permissions));
+    if (options.password) body.set('password', options.password);
+    if (options.expireDate) body.set('expireDate', options.expireDate);
+
+    const share = await ocsRequest(plugin, account, 'POST', SHARES_PATH, body) as OcsShare;
+    return share.url;
+}
+
+export class ShareLinkModal extends Modal {
+    plugin: NextcloudPlugin;
+    path: string;
+    // Account id; empty for the default account
+    account: string;
+    options: ShareOptions = { permission: 'read' };
+
+    constructor(app: App, plugin: NextcloudPlugin, path = '', account = '') {
+        super(app);
+        this.plugin = plugin;
+        this.path = path;
+        this.account = account;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText('Create share link');
+
+        new Setting(contentEl)
+            .setName('Path')
+            .setDesc('File or folder in Nextcloud')
+            .addText(text => text
+                .setPlaceholder('/Documents/report.pdf')
+                .setValue(this.path)
+                .onChange(value => this.path = value.trim()));
+
+        new Setting(contentEl)
+            .setName('Permissions')
+            .addDropdown(dropdown => dropdown
+                .addOption('read', 'Read only')
+                .addOption('edit', 'Allow upload and editing')
+                .addOption('filedrop', 'File drop (upload only, folders)')
+                .setValue(this.options.permission)
+                .onChange(value => this.options.permission = value as SharePermission));
+
+        new Setting(contentEl)
+            .setName('Password')
+            .setDesc('Optional')
+            .addText(text => {
+                text.inputEl.type = 'password';
+                text.onChange(value => this.options.password = value || undefined);
+            });
+
+        new Setting(contentEl)
+            .setName('Expiry date')
+            .setDesc('Optional')
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.onChange(value => this.options.expireDate = value || undefined);
+            });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Insert link')
+                .onClick(() => this.share(url => {
+                    const name = this.path.split('/').filter(p => p).pop() || this.path;
+                    this.plugin.insertAtCursor(markdownLink(name, url));
+                })))
+            .addButton(button => button
+                .setButtonText('Copy link')
+                .setCta()
+                .onClick(() => this.share(async url => {
+                    await navigator.clipboard.writeText(url);
+                    new Notice('Share link copied to clipboard');
+                })));
+    }
+
+    async share(deliver: (url: string) => void | Promise<void>) {
+        if (!this.path) {
+            new Notice('Enter the path of a file or folder.');
+            return;
+        }
+        try {
+            const url = await createShareLink(this.plugin, this.path, this.options, this.plugin.getAccount(this.account));
+            this.close();
+            await deliver(url);
+        } catch (error) {
+            new Notice(`Could not create share link: ${error.message}`);
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
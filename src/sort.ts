@@ -0,0 +1,100 @@
+// Sorting and grouping for query results, driven by the `sort:` key (e.g. `sort: modified desc, name`)
+// and the `groupby:` key.
+import { NextcloudFile } from './model';
+
+export type SortField = 'name' | 'size' | 'modified' | 'created' | 'type';
+
+export interface SortKey {
+    field: SortField;
+    descending: boolean;
+}
+
+const SORT_FIELDS: SortField[] = ['name', 'size', 'modified', 'created', 'type'];
+
+export function parseSort(value: string): SortKey[] {
+    const keys: SortKey[] = [];
+    value.split(',').forEach(part => {
+        const [field, direction] = part.trim().toLowerCase().split(/\s+/);
+        if (!SORT_FIELDS.includes(field as SortField)) {
+            throw new Error(`Unknown sort field "${field}". Use one of: ${SORT_FIELDS.join(', ')}.`);
+        }
+        if (direction && direction !== 'asc' && direction !== 'desc') {
+            throw new Error(`Unknown sort direction "${direction}". Use asc or desc.`);
+        }
+        keys.push({ field: field as SortField, descending: direction === 'desc' });
+    });
+    return keys;
+}
+
+const extension = (name: string): string => name.includes('.') ? (name.split('.').pop() || '').toLowerCase() : '';
+
+function compareField(a: NextcloudFile, b: NextcloudFile, field: SortField): number {
+    switch (field) {
+        case 'name':
+            return a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+        case 'size':
+            return a.size - b.size;
+        case 'modified':
+            return a.mtime - b.mtime;
+        case 'created':
+            return (a.ctime || 0) - (b.ctime || 0);
+        case 'type':
+            // Folders first, then files grouped by extension
+            if (a.type !== b.type) {
+                return a.type === 'folder' ? -1 : 1;
+            }
+            return extension(a.name).localeCompare(extension(b.name));
+    }
+}
+
+// Later keys only break ties left by earlier ones
+export function compareEntries(keys: SortKey[]): (a: NextcloudFile, b: NextcloudFile) => number {
+    return (a, b) => {
+        for (const key of keys) {
+            const result = compareField(a, b, key.field);
+            if (result !== 0) {
+                return key.descending ? -result : result;
+            }
+        }
+        return 0;
+    };
+}
+
+export const GROUP_FIELDS = ['folder', 'extension', 'month', 'owner'];
+
+export interface EntryGroup {
+    label: string;
+    files: NextcloudFile[];
+}
+
+function groupLabel(file: NextcloudFile, field: string): string {
+    switch (field) {
+        case 'folder':
+            return file.path.substring(0, file.path.lastIndexOf('/')) || '/';
+        case 'extension':
+            if (file.type === 'folder') return 'Folders';
+            return extension(file.name) || 'No extension';
+        case 'month':
+            return file.mtime ? new Date(file.mtime).toLocaleDateString(undefined, { year: 'numeric', month: 'long' }) : 'Unknown date';
+        case 'owner':
+            return file.owner || 'Unknown owner';
+    }
+    return '';
+}
+
+// Groups appear in the order of their first entry, so they follow the `sort:` order
+export function groupEntries(files: NextcloudFile[], field: string): EntryGroup[] {
+    const groups: EntryGroup[] = [];
+    const byLabel = new Map<string, EntryGroup>();
+    files.forEach(file => {
+        const label = groupLabel(file, field);
+        let group = byLabel.get(label);
+        if (!group) {
+            group = { label, files: [] };
+            byLabel.set(label, group);
+            groups.push(group);
+        }
+        group.files.push(file);
+    });
+    return groups;
+}
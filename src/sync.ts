@@ -0,0 +1,382 @@
+// Two-way sync between a vault folder and a Nextcloud folder. A manifest per folder pair records the state
+// of every file after the last sync, so changes, deletions and renames on either side can be told apart.
+import { App, Modal, Notice, Setting, TFile, TFolder, normalizePath, requestUrl } from 'obsidian';
+import type NextcloudPlugin from './main';
+import type { Listing } from './main';
+import { NextcloudFile } from './model';
+import { NextcloudAccount } from './settings';
+import { SyncAction, SyncActionType, SyncState, Manifest, checkSources, planActions } from './syncplan';
+import { davRequest, ensureFolder } from './upload';
+
+export interface SyncPair {
+    id: string;
+    // Vault folder, e.g. Shared
+    localFolder: string;
+    // Folder below the account's WebDAV root, e.g. /Team/Notes
+    remoteFolder: string;
+    // Account id; empty for the default account
+    account: string;
+}
+
+export interface SyncPlan {
+    pair: SyncPair;
+    actions: SyncAction[];
+}
+
+const ACTION_LABELS: Record<SyncActionType, string> = {
+    'upload': 'Upload',
+    'download': 'Download',
+    'delete-local': 'Delete from vault',
+    'delete-remote': 'Delete from Nextcloud',
+    'rename-local': 'Rename in vault',
+    'rename-remote': 'Rename in Nextcloud',
+    'conflict': 'Conflict, keep both',
+    'compare': 'Compare, keep both if different'
+};
+
+export function createSyncPair(): SyncPair {
+    return {
+        id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+        localFolder: '',
+        remoteFolder: '',
+        account: ''
+    };
+}
+
+const manifestPath = (plugin: NextcloudPlugin, pair: SyncPair): string => `${plugin.manifest.dir}/sync-${pair.id}.json`;
+
+async function loadManifest(plugin: NextcloudPlugin, pair: SyncPair): Promise<Manifest> {
+    const adapter = plugin.app.vault.adapter;
+    const path = manifestPath(plugin, pair);
+    return await adapter.exists(path) ? JSON.parse(await adapter.read(path)) : {};
+}
+
+async function saveManifest(plugin: NextcloudPlugin, pair: SyncPair, manifest: Manifest) {
+    await plugin.app.vault.adapter.write(manifestPath(plugin, pair), JSON.stringify(manifest));
+}
+
+export async function deleteManifest(plugin: NextcloudPlugin, pair: SyncPair) {
+    const path = manifestPath(plugin, pair);
+    if (await plugin.app.vault.adapter.exists(path)) {
+        await plugin.app.vault.adapter.remove(path);
+    }
+}
+
+const localRoot = (pair: SyncPair): string => normalizePath(pair.localFolder);
+
+const remotePath = (plugin: NextcloudPlugin, pair: SyncPair, path: string): string => {
+    const root = plugin.normalizeFolder(pair.remoteFolder);
+    return (root === '/' ? '' : root) + '/' + path;
+};
+
+const parentOf = (path: string): string => path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+
+function sameContent(a: ArrayBuffer, b: ArrayBuffer): boolean {
+    if (a.byteLength !== b.byteLength) return false;
+    const left = new Uint8Array(a);
+    const right = new Uint8Array(b);
+    for (let i = 0; i < left.length; i++) {
+        if (left[i] !== right[i]) return false;
+    }
+    return true;
+}
+
+async function readState(plugin: NextcloudPlugin, pair: SyncPair, account: NextcloudAccount): Promise<SyncState> {
+    const manifest = await loadManifest(plugin, pair);
+    const root = localRoot(pair);
+    const remoteRoot = plugin.normalizeFolder(pair.remoteFolder);
+    const localExists = plugin.app.vault.getAbstractFileByPath(root) instanceof TFolder;
+
+    let listing: Listing | null = null;
+    try {
+        // Sync needs the complete, current listing: never the cache, not even while offline, and no Max entries cap
+        listing = await plugin.fetchListing(remoteRoot, [{ type: 'file' }], { depth: Infinity, account: account.id, uncached: true, maxEntries: Infinity });
+    } catch (error) {
+        if (error.status !== 404) throw error;
+    }
+
+    checkSources(root, remoteRoot, {
+        hasHistory: Object.keys(manifest).length > 0,
+        localExists,
+        remoteExists: listing !== null,
+        offline: !!listing?.offline
+    });
+    if (!localExists) {
+        await plugin.app.vault.createFolder(root);
+    }
+    if (!listing) {
+        await ensureFolder(plugin, remoteRoot, account);
+    }
+    const files = listing ? listing.files : [];
+
+    const remote = new Map<string, NextcloudFile>();
+    files.filter(file => !file.relativePath.split('/').some(part => part.startsWith('.')))
+        .forEach(file => remote.set(file.relativePath, file));
+
+    const local = new Map<string, TFile>();
+    plugin.app.vault.getFiles()
+        .filter(file => file.path.startsWith(root + '/'))
+        .forEach(file => local.set(file.path.substring(root.length + 1), file));
+
+    return { local, remote, manifest };
+}
+
+export async function planSync(plugin: NextcloudPlugin, pair: SyncPair): Promise<SyncPlan> {
+    const account = plugin.getAccount(pair.account);
+    return { pair, actions: planActions(await readState(plugin, pair, account)) };
+}
+
+class SyncRunner {
+    private account: NextcloudAccount;
+    private state: SyncState;
+
+    constructor(private plugin: NextcloudPlugin, private pair: SyncPair) {
+        this.account = plugin.getAccount(pair.account);
+    }
+
+    async run(): Promise<{ done: number, failed: number }> {
+        this.state = await readState(this.plugin, this.pair, this.account);
+        const actions = planActions(this.state);
+
+        let done = 0;
+        let failed = 0;
+        for (const action of actions) {
+            try {
+                await this.apply(action);
+                done++;
+            } catch (error) {
+                console.error(`Nextcloud sync: ${action.type} ${action.path} failed:`, error);
+                failed++;
+            }
+            // Save as we go so an interrupted sync doesn't redo (or misread) finished work
+            await saveManifest(this.plugin, this.pair, this.state.manifest);
+        }
+        return { done, failed };
+    }
+
+    private remoteUrl(path: string): string {
+        return this.plugin.getRemoteUrl(remotePath(this.plugin, this.pair, path), this.account);
+    }
+
+    private localPath(path: string): string {
+        return normalizePath(`${localRoot(this.pair)}/${path}`);
+    }
+
+    private record(path: string, file: TFile, etag: string, fileid: string) {
+        this.state.manifest[path] = { localMtime: file.stat.mtime, localSize: file.stat.size, etag, fileid };
+    }
+
+    private async download(path: string): Promise<{ data: ArrayBuffer, etag: string }> {
+        const response = await requestUrl({
+            url: this.remoteUrl(path),
+            headers: { 'Authorization': this.plugin.getAuthHeader(this.account) }
+        });
+        const etag = (response.headers['etag'] || response.headers['ETag'] || '').replace(/"/g, '');
+        return { data: response.arrayBuffer, etag };
+    }
+
+    private async writeLocal(path: string, data: ArrayBuffer): Promise<TFile> {
+        const vault = this.plugin.app.vault;
+        const target = this.localPath(path);
+        const existing = vault.getAbstractFileByPath(target);
+        if (existing instanceof TFile) {
+            await vault.modifyBinary(existing, data);
+            return existing;
+        }
+        const folder = parentOf(target);
+        if (folder && !vault.getAbstractFileByPath(folder)) {
+            await vault.createFolder(folder);
+        }
+        return await vault.createBinary(target, data);
+    }
+
+    private async upload(path: string, file: TFile) {
+        const data = await this.plugin.app.vault.readBinary(file);
+        await ensureFolder(this.plugin, parentOf(remotePath(this.plugin, this.pair, path)), this.account);
+        await davRequest(this.plugin, this.remoteUrl(path), 'PUT', { 'Content-Type': 'application/octet-stream' }, data, this.account);
+        const remote = await this.plugin.stat(remotePath(this.plugin, this.pair, path), this.account);
+        this.state.remote.set(path, remote);
+        this.record(path, file, remote.etag, remote.fileid);
+    }
+
+    private async apply(action: SyncAction) {
+        const { local, remote, manifest } = this.state;
+        const path = action.path;
+        const fileManager = this.plugin.app.fileManager;
+
+        switch (action.type) {
+            case 'upload':
+                await this.upload(path, local.get(path));
+                break;
+            case 'download': {
+                const { data, etag } = await this.download(path);
+                const file = await this.writeLocal(path, data);
+                local.set(path, file);
+                this.record(path, file, etag || remote.get(path).etag, remote.get(path).fileid);
+                break;
+            }
+            case 'delete-local':
+                await fileManager.trashFile(local.get(path));
+                delete manifest[path];
+                break;
+            case 'delete-remote':
+                // Deleted files go to the Nextcloud trash bin
+                await davRequest(this.plugin, this.remoteUrl(path), 'DELETE', {}, undefined, this.account);
+                delete manifest[path];
+                break;
+            case 'rename-local': {
+                const file = local.get(path);
+                const folder = parentOf(this.localPath(action.to));
+                if (folder && !this.plugin.app.vault.getAbstractFileByPath(folder)) {
+                    await this.plugin.app.vault.createFolder(folder);
+                }
+                // Through the file manager so links to the note are updated
+                await fileManager.renameFile(file, this.localPath(action.to));
+                local.delete(path);
+                local.set(action.to, file);
+                const entry = manifest[path];
+                delete manifest[path];
+                this.record(action.to, file, entry.etag, entry.fileid);
+                break;
+            }
+            case 'rename-remote': {
+                await ensureFolder(this.plugin, parentOf(remotePath(this.plugin, this.pair, action.to)), this.account);
+                await davRequest(this.plugin, this.remoteUrl(path), 'MOVE', { 'Destination': this.remoteUrl(action.to), 'Overwrite': 'F' }, undefined, this.account);
+                const moved = await this.plugin.stat(remotePath(this.plugin, this.pair, action.to), this.account);
+                delete manifest[path];
+                this.record(action.to, local.get(action.to), moved.etag, moved.fileid);
+                break;
+            }
+            case 'conflict':
+            case 'compare':
+                await this.resolveConflict(path);
+                break;
+        }
+    }
+
+    // The vault's version keeps the path; Nextcloud's version is saved next to it as a conflict copy on both sides
+    private async resolveConflict(path: string) {
+        const file = this.state.local.get(path);
+        const { data, etag } = await this.download(path);
+
+        if (sameContent(data, await this.plugin.app.vault.readBinary(file))) {
+            this.record(path, file, etag || this.state.remote.get(path).etag, this.state.remote.get(path).fileid);
+            return;
+        }
+
+        const stamp = new Date().toISOString().slice(0, 16).replace('T', ' ').replace(':', '');
+        const dot = path.lastIndexOf('.');
+        const base = dot > path.lastIndexOf('/') ? path.substring(0, dot) : path;
+        const ext = dot > path.lastIndexOf('/') ? path.substring(dot) : '';
+        let copyPath = `${base} (conflict ${stamp})${ext}`;
+        for (let i = 2; this.state.local.has(copyPath) || this.state.remote.has(copyPath); i++) {
+            copyPath = `${base} (conflict ${stamp} ${i})${ext}`;
+        }
+
+        const copy = await this.writeLocal(copyPath, data);
+        this.state.local.set(copyPath, copy);
+        await this.upload(copyPath, copy);
+        await this.upload(path, file);
+    }
+}
+
+export async function runSync(plugin: NextcloudPlugin, pair: SyncPair): Promise<{ done: number, failed: number }> {
+    return await new SyncRunner(plugin, pair).run();
+}
+
+// Runs every configured pair; skipped while a previous run is still going
+let running = false;
+
+export async function syncAll(plugin: NextcloudPlugin, quiet = false) {
+    if (running) {
+        if (!quiet) new Notice('Nextcloud sync is already running');
+        return;
+    }
+    running = true;
+    try {
+        let done = 0;
+        let failed = 0;
+        for (const pair of plugin.settings.syncPairs) {
+            if (!pair.localFolder || !pair.remoteFolder) continue;
+            try {
+                const result = await runSync(plugin, pair);
+                done += result.done;
+                failed += result.failed;
+            } catch (error) {
+                console.error(`Nextcloud sync of ${pair.localFolder} failed:`, error);
+                new Notice(`Could not sync ${pair.localFolder}: ${error.message}`);
+            }
+        }
+        if (!quiet || done > 0 || failed > 0) {
+            new Notice(`Nextcloud sync: ${done} change${done === 1 ? '' : 's'}${failed ? `, ${failed} failed (see console)` : ''}`);
+        }
+    } finally {
+        running = false;
+    }
+}
+
+// Dry run: lists what a sync would do without touching either side
+export class SyncPreviewModal extends Modal {
+    plugin: NextcloudPlugin;
+
+    constructor(app: App, plugin: NextcloudPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        this.titleEl.setText('Sync preview');
+        void this.render();
+    }
+
+    async render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('p', { text: 'Checking for changes...' });
+
+        const plans: SyncPlan[] = [];
+        const errors: string[] = [];
+        for (const pair of this.plugin.settings.syncPairs) {
+            if (!pair.localFolder || !pair.remoteFolder) continue;
+            try {
+                plans.push(await planSync(this.plugin, pair));
+            } catch (error) {
+                errors.push(`${pair.localFolder}: ${error.message}`);
+            }
+        }
+
+        contentEl.empty();
+        if (plans.length === 0 && errors.length === 0) {
+            contentEl.createEl('p', { text: 'No sync folders configured. Add them in the plugin settings.' });
+            return;
+        }
+
+        errors.forEach(error => contentEl.createEl('p', { text: error, cls: 'nextcloud-sync-error' }));
+        plans.forEach(plan => {
+            contentEl.createEl('h4', { text: `${plan.pair.localFolder} ↔ ${plan.pair.remoteFolder}` });
+            if (plan.actions.length === 0) {
+                contentEl.createEl('p', { text: 'Up to date.' });
+                return;
+            }
+            const list = contentEl.createEl('ul', { cls: 'nextcloud-sync-actions' });
+            plan.actions.forEach(action => {
+                const item = list.createEl('li', { cls: `nextcloud-sync-${action.type}` });
+                item.createSpan({ text: ACTION_LABELS[action.type], cls: 'nextcloud-sync-action' });
+                item.appendText(action.to ? ` ${action.path} → ${action.to}` : ` ${action.path}`);
+            });
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Sync now')
+                .setCta()
+                .onClick(async () => {
+                    this.close();
+                    await syncAll(this.plugin);
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
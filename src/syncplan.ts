@@ -0,0 +1,126 @@
+// Planning half of the folder sync: decides from the manifest and both listings what has to happen,
+// without touching either side. Kept free of Obsidian at runtime so it can be tested on its own.
+import type { TFile } from 'obsidian';
+import { NextcloudFile } from './model';
+
+export interface ManifestEntry {
+    localMtime: number;
+    localSize: number;
+    etag: string;
+    fileid: string;
+}
+
+// Keyed by path relative to the synced folders
+export type Manifest = Record<string, ManifestEntry>;
+
+export type SyncActionType = 'upload' | 'download' | 'delete-local' | 'delete-remote' | 'rename-local' | 'rename-remote' | 'conflict' | 'compare';
+
+export interface SyncAction {
+    type: SyncActionType;
+    path: string;
+    // New path of a rename
+    to?: string;
+}
+
+export interface SyncState {
+    local: Map<string, TFile>;
+    remote: Map<string, NextcloudFile>;
+    manifest: Manifest;
+}
+
+export interface SourceCheck {
+    // The pair has been synced before, so its manifest lists files on both sides
+    hasHistory: boolean;
+    localExists: boolean;
+    remoteExists: boolean;
+    // The remote listing came from the cache because the server couldn't be reached
+    offline: boolean;
+}
+
+// A missing folder or a stale listing would look like every file was deleted on that side.
+// Before the first sync missing folders are simply created; afterwards syncing stops instead.
+export function checkSources(localFolder: string, remoteFolder: string, check: SourceCheck) {
+    if (check.offline) {
+        throw new Error(`Nextcloud can't be reached; not syncing ${localFolder} from a cached listing`);
+    }
+    if (!check.hasHistory) return;
+    if (!check.localExists) {
+        throw new Error(`Vault folder ${localFolder} is missing`);
+    }
+    if (!check.remoteExists) {
+        throw new Error(`Nextcloud folder ${remoteFolder} is missing`);
+    }
+}
+
+export function planActions(state: SyncState): SyncAction[] {
+    const { local, remote, manifest } = state;
+    const actions: SyncAction[] = [];
+    const handled = new Set<string>();
+
+    const localChanged = (path: string) => {
+        const file = local.get(path);
+        const entry = manifest[path];
+        return !entry || file.stat.mtime !== entry.localMtime || file.stat.size !== entry.localSize;
+    };
+    const remoteChanged = (path: string) => {
+        const entry = manifest[path];
+        return !entry || remote.get(path).etag !== entry.etag;
+    };
+
+    // Renames: a known file that disappeared from one side and reappeared under a new path on the same side
+    Object.keys(manifest).forEach(oldPath => {
+        const entry = manifest[oldPath];
+
+        if (!remote.has(oldPath) && local.has(oldPath) && !localChanged(oldPath)) {
+            // Nextcloud keeps the file id when a file is moved
+            const moved = Array.from(remote.values()).find(file => file.fileid === entry.fileid
+                && !manifest[file.relativePath] && !local.has(file.relativePath) && !handled.has(file.relativePath));
+            if (moved) {
+                actions.push({ type: 'rename-local', path: oldPath, to: moved.relativePath });
+                if (moved.etag !== entry.etag) actions.push({ type: 'download', path: moved.relativePath });
+                handled.add(oldPath).add(moved.relativePath);
+                return;
+            }
+        }
+
+        if (!local.has(oldPath) && remote.has(oldPath) && !remoteChanged(oldPath)) {
+            // Obsidian keeps the modification time when a file is renamed
+            const moved = Array.from(local.entries()).find(([path, file]) =>
+                !manifest[path] && !remote.has(path) && !handled.has(path) && file.stat.mtime === entry.localMtime && file.stat.size === entry.localSize);
+            if (moved) {
+                actions.push({ type: 'rename-remote', path: oldPath, to: moved[0] });
+                handled.add(oldPath).add(moved[0]);
+            }
+        }
+    });
+
+    const paths = new Set<string>([...Array.from(local.keys()), ...Array.from(remote.keys()), ...Object.keys(manifest)]);
+    paths.forEach(path => {
+        if (handled.has(path)) return;
+        const inLocal = local.has(path);
+        const inRemote = remote.has(path);
+        const known = !!manifest[path];
+
+        if (inLocal && inRemote) {
+            const changedHere = localChanged(path);
+            const changedThere = remoteChanged(path);
+            if (!known) {
+                // Present on both sides before the first sync; only the content can tell whether they differ
+                actions.push({ type: 'compare', path });
+            } else if (changedHere && changedThere) {
+                actions.push({ type: 'conflict', path });
+            } else if (changedHere) {
+                actions.push({ type: 'upload', path });
+            } else if (changedThere) {
+                actions.push({ type: 'download', path });
+            }
+        } else if (inLocal) {
+            // Deleted in Nextcloud; local edits since the last sync win over the deletion
+            actions.push({ type: known && !localChanged(path) ? 'delete-local' : 'upload', path });
+        } else if (inRemote) {
+            actions.push({ type: known && !remoteChanged(path) ? 'delete-remote' : 'download', path });
+        }
+    });
+
+    return actions;
+}
@@ -0,0 +1,129 @@
+// Table display mode (`display: table`), with one column per placeholder.
+import { Menu } from 'obsidian';
+import type NextcloudPlugin from './main';
+import { NextcloudFile } from './model';
+import { humanizeSize } from './format';
+
+export interface TableColumn {
+    // Placeholder name without braces, e.g. "size" for {{size}}
+    key: string;
+    label: string;
+}
+
+const SIZE_COLUMNS = ['size', 'sizekb', 'sizemb'];
+const DATE_COLUMNS = ['date', 'datetime', 'modified', 'created'];
+const LINK_COLUMNS: Record<string, string> = { link: 'Open', downloadurl: 'Download', folderlink: 'Folder' };
+
+const DEFAULT_COLUMNS: TableColumn[] = [
+    { key: 'name', label: 'Name' },
+    { key: 'size', label: 'Size' },
+    { key: 'modified', label: 'Modified' }
+];
+
+const defaultLabel = (key: string): string => key.charAt(0).toUpperCase() + key.slice(1);
+
+// Accepts either a "- key: Label" list or an inline comma-separated list of keys
+export function parseColumns(value: unknown): TableColumn[] {
+    if (typeof value === 'string') {
+        return value.split(',').map(key => key.trim()).filter(key => key)
+            .map(key => ({ key, label: defaultLabel(key) }));
+    }
+    if (Array.isArray(value) && value.length > 0) {
+        return (value as Array<Record<string, string>>).map(item => {
+            const key = Object.keys(item)[0];
+            return { key, label: item[key] || defaultLabel(key) };
+        });
+    }
+    return DEFAULT_COLUMNS;
+}
+
+const placeholder = (plugin: NextcloudPlugin, file: NextcloudFile, key: string): string =>
+    String(plugin.fileContext(file)[key] ?? '');
+
+const isNumericColumn = (key: string): boolean => SIZE_COLUMNS.includes(key) || DATE_COLUMNS.includes(key);
+
+function dateValue(file: NextcloudFile, key: string): number {
+    return key === 'created' ? file.ctime || 0 : file.mtime;
+}
+
+function compareByColumn(plugin: NextcloudPlugin, key: string): (a: NextcloudFile, b: NextcloudFile) => number {
+    if (SIZE_COLUMNS.includes(key)) {
+        return (a, b) => a.size - b.size;
+    }
+    if (DATE_COLUMNS.includes(key)) {
+        return (a, b) => dateValue(a, key) - dateValue(b, key);
+    }
+    return (a, b) => placeholder(plugin, a, key)
+        .localeCompare(placeholder(plugin, b, key), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+function renderCell(plugin: NextcloudPlugin, td: HTMLElement, file: NextcloudFile, key: string, linkTarget: string) {
+    const links = plugin.getFileLinks(file);
+
+    if (SIZE_COLUMNS.includes(key)) {
+        td.setText(file.type === 'folder' && !file.size ? '' : humanizeSize(file.size));
+    } else if (DATE_COLUMNS.includes(key)) {
+        const time = dateValue(file, key);
+        td.setText(time ? new Date(time).toLocaleString() : '');
+    } else if (key in LINK_COLUMNS) {
+        td.createEl('a', { text: LINK_COLUMNS[key], href: links[key as keyof typeof links], cls: 'external-link' });
+    } else if ((key === 'name' || key === 'filename') && linkTarget !== 'none') {
+        td.createEl('a', {
+            text: placeholder(plugin, file, key),
+            href: linkTarget === 'download' ? links.downloadurl : links.link,
+            cls: 'external-link'
+        });
+    } else {
+        td.setText(placeholder(plugin, file, key));
+    }
+}
+
+export function renderTable(plugin: NextcloudPlugin, el: HTMLElement, files: NextcloudFile[], columns: TableColumn[], pageSize: number, linkTarget: string) {
+    const table = el.createEl('table', { cls: 'nextcloud-table' });
+    const headerRow = table.createEl('thead').createEl('tr');
+    const tbody = table.createEl('tbody');
+    const footer = el.createDiv();
+
+    let sorted = files.slice();
+    let sortKey = '';
+    let descending = false;
+
+    const renderRows = () => {
+        tbody.empty();
+        footer.empty();
+        plugin.renderPage(footer, sorted, 0, pageSize, file => {
+            const tr = tbody.createEl('tr');
+            tr.addEventListener('contextmenu', (event: MouseEvent) => {
+                const menu = new Menu();
+                plugin.addFileMenuItems(menu, file, plugin.getFileLinks(file));
+                menu.showAtMouseEvent(event);
+            });
+            columns.forEach(column => {
+                const td = tr.createEl('td');
+                if (isNumericColumn(column.key)) td.addClass('nextcloud-align-right');
+                renderCell(plugin, td, file, column.key, linkTarget);
+            });
+        });
+    };
+
+    const headers = columns.map(column => {
+        const th = headerRow.createEl('th', { text: column.label, cls: 'nextcloud-sortable' });
+        if (isNumericColumn(column.key)) th.addClass('nextcloud-align-right');
+
+        // Clicking a header sorts by it; clicking it again reverses the order
+        th.addEventListener('click', () => {
+            descending = sortKey === column.key ? !descending : false;
+            sortKey = column.key;
+
+            const compare = compareByColumn(plugin, column.key);
+            sorted = files.slice().sort((a, b) => descending ? compare(b, a) : compare(a, b));
+
+            headers.forEach(header => header.removeClass('is-sorted-asc', 'is-sorted-desc'));
+            th.addClass(descending ? 'is-sorted-desc' : 'is-sorted-asc');
+            renderRows();
+        });
+        return th;
+    });
+
+    renderRows();
+}
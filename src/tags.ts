@@ -0,0 +1,201 @@
+// Favorites (PROPPATCH on oc:favorite) and collaborative system tags, managed through the
+// /remote.php/dav/systemtags/ and /remote.php/dav/systemtags-relations/files/<fileid>/ collections.
+import { App, Notice, SuggestModal, requestUrl, RequestUrlResponse } from 'obsidian';
+import type NextcloudPlugin from './main';
+import { NextcloudFile, parseResources, propText } from './model';
+import { NextcloudAccount } from './settings';
+
+export interface SystemTag {
+    id: string;
+    name: string;
+    userVisible: boolean;
+    userAssignable: boolean;
+}
+
+const TAG_PROPERTIES = `<?xml version="1.0" encoding="UTF-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns">
+    <d:prop>
+        <oc:id/>
+        <oc:display-name/>
+        <oc:user-visible/>
+        <oc:user-assignable/>
+    </d:prop>
+</d:propfind>`;
+
+// path is relative to /remote.php/dav/. Statuses in `accept` count as success besides 2xx.
+async function tagsRequest(plugin: NextcloudPlugin, account: NextcloudAccount, method: string, path: string, body?: string, contentType = 'application/xml', accept: number[] = []): Promise<RequestUrlResponse> {
+    plugin.checkCredentials(account);
+    const response = await requestUrl({
+        url: plugin.getDavLocation(account).davUrl + path,
+        method,
+        headers: {
+            'Authorization': plugin.getAuthHeader(account),
+            ...(method === 'PROPFIND' ? { 'Depth': '1' } : {}),
+            ...(body ? { 'Content-Type': contentType } : {})
+        },
+        body,
+        throw: false
+    });
+    if ((response.status < 200 || response.status >= 300) && !accept.includes(response.status)) {
+        throw new Error(`${method} ${path} failed with status ${response.status}`);
+    }
+    return response;
+}
+
+function parseTags(xml: string): SystemTag[] {
+    const tags: SystemTag[] = [];
+    parseResources(xml).forEach(({ props }) => {
+        const id = propText(props, 'id');
+        // The collection itself has no id
+        if (!id) return;
+        tags.push({
+            id,
+            name: propText(props, 'display-name'),
+            userVisible: propText(props, 'user-visible') === 'true',
+            userAssignable: propText(props, 'user-assignable') === 'true'
+        });
+    });
+    return tags;
+}
+
+export async function getSystemTags(plugin: NextcloudPlugin, account: NextcloudAccount): Promise<SystemTag[]> {
+    const response = await tagsRequest(plugin, account, 'PROPFIND', 'systemtags/', TAG_PROPERTIES);
+    return parseTags(response.text);
+}
+
+export async function getFileTags(plugin: NextcloudPlugin, file: NextcloudFile): Promise<SystemTag[]> {
+    const account = plugin.getAccount(file.account);
+    const response = await tagsRequest(plugin, account, 'PROPFIND', `systemtags-relations/files/${file.fileid}/`, TAG_PROPERTIES);
+    return parseTags(response.text);
+}
+
+// Returns the new tag's id, read from the Content-Location of the created resource
+export async function createSystemTag(plugin: NextcloudPlugin, account: NextcloudAccount, name: string): Promise<string> {
+    const body = JSON.stringify({ name, userVisible: true, userAssignable: true });
+    const response = await tagsRequest(plugin, account, 'POST', 'systemtags/', body, 'application/json', [409]);
+    if (response.status === 409) {
+        throw new Error(`A tag named "${name}" already exists`);
+    }
+    const location = response.headers['content-location'] || response.headers['Content-Location'] || '';
+    const id = location.split('/').filter(part => part).pop();
+    if (!id) {
+        throw new Error('The server did not return the id of the new tag');
+    }
+    return id;
+}
+
+// Assigning a tag the file already has answers 409, which is fine
+export async function assignTag(plugin: NextcloudPlugin, file: NextcloudFile, tag: SystemTag) {
+    const account = plugin.getAccount(file.account);
+    await tagsRequest(plugin, account, 'PUT', `systemtags-relations/files/${file.fileid}/${tag.id}`, undefined, undefined, [409]);
+    if (!file.systemTags.includes(tag.name)) file.systemTags.push(tag.name);
+    plugin.invalidateCache(account);
+}
+
+export async function removeTag(plugin: NextcloudPlugin, file: NextcloudFile, tag: SystemTag) {
+    const account = plugin.getAccount(file.account);
+    await tagsRequest(plugin, account, 'DELETE', `systemtags-relations/files/${file.fileid}/${tag.id}`, undefined, undefined, [404]);
+    file.systemTags.remove(tag.name);
+    plugin.invalidateCache(account);
+}
+
+export async function setFavorite(plugin: NextcloudPlugin, file: NextcloudFile, favorite: boolean) {
+    const account = plugin.getAccount(file.account);
+    const body = `<?xml version="1.0" encoding="UTF-8"?>
+<d:propertyupdate xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns">
+    <d:set>
+        <d:prop>
+            <oc:favorite>${favorite ? 1 : 0}</oc:favorite>
+        </d:prop>
+    </d:set>
+</d:propertyupdate>`;
+    const { filesRoot } = plugin.getDavLocation(account);
+    const path = (filesRoot + file.path).split('/').map(encodeURIComponent).join('/').substring(1);
+    await tagsRequest(plugin, account, 'PROPPATCH', path, body);
+    file.favorite = favorite;
+    plugin.invalidateCache(account);
+}
+
+export async function toggleFavorite(plugin: NextcloudPlugin, file: NextcloudFile) {
+    try {
+        await setFavorite(plugin, file, !file.favorite);
+        new Notice(file.favorite ? `Added ${file.name} to favorites` : `Removed ${file.name} from favorites`);
+    } catch (error) {
+        new Notice(`Could not update favorite: ${error.message}`);
+    }
+}
+
+type TagChoice = { tag: SystemTag, assigned: boolean } | { create: string };
+
+// Lists the tags that can be assigned; choosing one toggles it on the file, and typing
+// a name that doesn't exist yet offers to create it.
+export class TagSuggestModal extends SuggestModal<TagChoice> {
+    plugin: NextcloudPlugin;
+    file: NextcloudFile;
+    private tags: SystemTag[] = [];
+    private assigned = new Set<string>();
+
+    constructor(app: App, plugin: NextcloudPlugin, file: NextcloudFile) {
+        super(app);
+        this.plugin = plugin;
+        this.file = file;
+        this.setPlaceholder(`Loading tags for ${file.name}...`);
+    }
+
+    onOpen() {
+        super.onOpen();
+        const account = this.plugin.getAccount(this.file.account);
+        Promise.all([getSystemTags(this.plugin, account), getFileTags(this.plugin, this.file)])
+            .then(([tags, fileTags]) => {
+                this.tags = tags.filter(tag => tag.userVisible && tag.userAssignable);
+                this.assigned = new Set(fileTags.map(tag => tag.id));
+                this.setPlaceholder(`Toggle a tag on ${this.file.name}, or type a new one`);
+                this.inputEl.dispatchEvent(new Event('input'));
+            })
+            .catch(error => {
+                new Notice(`Could not load Nextcloud tags: ${error.message}`);
+                this.close();
+            });
+    }
+
+    getSuggestions(query: string): TagChoice[] {
+        const text = query.trim();
+        const lower = text.toLowerCase();
+        const choices: TagChoice[] = this.tags
+            .filter(tag => tag.name.toLowerCase().includes(lower))
+            .map(tag => ({ tag, assigned: this.assigned.has(tag.id) }))
+            .sort((a, b) => Number(b.assigned) - Number(a.assigned) || a.tag.name.localeCompare(b.tag.name));
+        if (text && !this.tags.some(tag => tag.name.toLowerCase() === lower)) {
+            choices.push({ create: text });
+        }
+        return choices;
+    }
+
+    renderSuggestion(choice: TagChoice, el: HTMLElement) {
+        if ('create' in choice) {
+            el.setText(`Create tag "${choice.create}"`);
+            return;
+        }
+        el.setText(`${choice.assigned ? '✓ ' : ''}${choice.tag.name}`);
+    }
+
+    onChooseSuggestion(choice: TagChoice) {
+        void this.apply(choice).catch(error => new Notice(`Could not update tags: ${error.message}`));
+    }
+
+    private async apply(choice: TagChoice) {
+        const { plugin, file } = this;
+        if ('create' in choice) {
+            const account = plugin.getAccount(file.account);
+            const id = await createSystemTag(plugin, account, choice.create);
+            await assignTag(plugin, file, { id, name: choice.create, userVisible: true, userAssignable: true });
+            new Notice(`Created tag "${choice.create}" and added it to ${file.name}`);
+        } else if (choice.assigned) {
+            await removeTag(plugin, file, choice.tag);
+            new Notice(`Removed tag "${choice.tag.name}" from ${file.name}`);
+        } else {
+            await assignTag(plugin, file, choice.tag);
+            new Notice(`Added tag "${choice.tag.name}" to ${file.name}`);
+        }
+    }
+}
@@ -0,0 +1,316 @@
+// Templates for the `format:` key: {{placeholder}} output with filters such as
+// {{size | humanize}} or {{modified | date:"YYYY-MM-DD"}}, and {{#if}}/{{#unless}} blocks.
+import { formatDate, humanizeSize } from './format';
+import { FileLinks } from './links';
+import { NextcloudFile } from './model';
+
+export type TemplateValue = string | number | boolean | null | undefined;
+
+export type TemplateContext = Record<string, TemplateValue>;
+
+export class TemplateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateError';
+    }
+}
+
+interface FilterCall {
+    name: string;
+    args: string[];
+}
+
+interface Expression {
+    variable: string;
+    filters: FilterCall[];
+}
+
+// {{#if left}} or {{#if left == "literal"}}
+interface Condition {
+    left: Expression;
+    operator?: '==' | '!=';
+    right?: string;
+}
+
+type TemplateNode =
+    | { kind: 'text', text: string }
+    | { kind: 'output', expression: Expression }
+    | { kind: 'if', condition: Condition, negate: boolean, then: TemplateNode[], otherwise: TemplateNode[] };
+
+// Minimum and maximum number of arguments per filter
+const FILTERS: Record<string, [number, number]> = {
+    date: [0, 1],
+    humanize: [0, 0],
+    truncate: [1, 2],
+    upper: [0, 0],
+    lower: [0, 0],
+    default: [1, 1]
+};
+
+const TAG_PATTERN = /{{\s*([\s\S]*?)\s*}}/g;
+
+// Split on a separator, ignoring separators inside quotes
+function splitOutsideQuotes(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let quote = '';
+    for (const char of text) {
+        if (quote) {
+            if (char === quote) quote = '';
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+        } else if (char === separator) {
+            parts.push(current);
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    if (quote) {
+        throw new TemplateError(`Unclosed quote in "${text}"`);
+    }
+    parts.push(current);
+    return parts.map(part => part.trim());
+}
+
+const unquote = (value: string): string =>
+    /^(".*"|'.*')$/.test(value) ? value.slice(1, -1) : value;
+
+function parseExpression(text: string): Expression {
+    const [variable, ...calls] = splitOutsideQuotes(text, '|');
+    if (!/^[\w-]+$/.test(variable)) {
+        throw new TemplateError(`Invalid placeholder "{{${text}}}"`);
+    }
+
+    const filters = calls.map(call => {
+        const match = call.match(/^(\w+)\s*(?::([\s\S]*))?$/);
+        if (!match) {
+            throw new TemplateError(`Invalid filter "${call}"`);
+        }
+        const name = match[1];
+        const args = match[2] !== undefined ? splitOutsideQuotes(match[2], ',').map(unquote) : [];
+        const arity = FILTERS[name];
+        if (!arity) {
+            throw new TemplateError(`Unknown filter "${name}". Use one of: ${Object.keys(FILTERS).join(', ')}.`);
+        }
+        if (args.length < arity[0] || args.length > arity[1]) {
+            throw new TemplateError(arity[1] === 0
+                ? `The ${name} filter takes no arguments`
+                : `The ${name} filter takes ${arity[0] === arity[1] ? arity[0] : `${arity[0]} to ${arity[1]}`} argument${arity[1] === 1 ? '' : 's'}`);
+        }
+        if (name === 'truncate' && !/^\d+$/.test(args[0])) {
+            throw new TemplateError(`truncate needs a length, not "${args[0]}"`);
+        }
+        return { name, args };
+    });
+
+    return { variable, filters };
+}
+
+function parseCondition(text: string): Condition {
+    const match = text.match(/^([\s\S]+?)\s*(==|!=)\s*("[^"]*"|'[^']*'|[^\s"']+)$/);
+    if (!match) {
+        return { left: parseExpression(text) };
+    }
+    return { left: parseExpression(match[1]), operator: match[2] as '==' | '!=', right: unquote(match[3]) };
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    // Open blocks, innermost last; output goes to the branch currently being filled
+    const stack: Array<{ node: Extract<TemplateNode, { kind: 'if' }>, tag: string, target: TemplateNode[] }> = [];
+    const target = (): TemplateNode[] => stack.length > 0 ? stack[stack.length - 1].target : root;
+
+    let last = 0;
+    let match: RegExpExecArray | null;
+    TAG_PATTERN.lastIndex = 0;
+    while ((match = TAG_PATTERN.exec(template)) !== null) {
+        if (match.index > last) {
+            target().push({ kind: 'text', text: template.substring(last, match.index) });
+        }
+        last = TAG_PATTERN.lastIndex;
+
+        const tag = match[1];
+        const open = tag.match(/^#(if|unless)\s+([\s\S]+)$/);
+        if (open) {
+            const node: Extract<TemplateNode, { kind: 'if' }> = {
+                kind: 'if',
+                condition: parseCondition(open[2]),
+                negate: open[1] === 'unless',
+                then: [],
+                otherwise: []
+            };
+            target().push(node);
+            stack.push({ node, tag: open[1], target: node.then });
+        } else if (tag === 'else') {
+            const block = stack[stack.length - 1];
+            if (!block || block.target === block.node.otherwise) {
+                throw new TemplateError('{{else}} without a matching {{#if}}');
+            }
+            block.target = block.node.otherwise;
+        } else if (/^\/(if|unless)$/.test(tag)) {
+            const block = stack.pop();
+            if (!block || `/${block.tag}` !== tag) {
+                throw new TemplateError(`{{${tag}}} without a matching {{#${tag.substring(1)}}}`);
+            }
+        } else if (/^[#/]/.test(tag)) {
+            throw new TemplateError(`Unknown block "{{${tag}}}". Use {{#if ...}} or {{#unless ...}}.`);
+        } else {
+            target().push({ kind: 'output', expression: parseExpression(tag) });
+        }
+    }
+
+    if (stack.length > 0) {
+        throw new TemplateError(`Unclosed {{#${stack[stack.length - 1].tag}}}`);
+    }
+    if (last < template.length) {
+        root.push({ kind: 'text', text: template.substring(last) });
+    }
+    return root;
+}
+
+function applyFilter(value: TemplateValue, filter: FilterCall): TemplateValue {
+    const [arg, extra] = filter.args;
+    switch (filter.name) {
+        case 'date': {
+            if (value === '' || value === null || value === undefined) return '';
+            const date = new Date(typeof value === 'number' ? value : String(value));
+            if (isNaN(date.getTime())) return '';
+            return arg ? formatDate(date, arg) : date.toLocaleDateString();
+        }
+        case 'humanize': {
+            const bytes = Number(value);
+            return value === '' || isNaN(bytes) ? value : humanizeSize(bytes);
+        }
+        case 'truncate': {
+            const text = toText(value);
+            const length = parseInt(arg);
+            return text.length > length ? text.substring(0, length) + (extra ?? '…') : text;
+        }
+        case 'upper':
+            return toText(value).toUpperCase();
+        case 'lower':
+            return toText(value).toLowerCase();
+        case 'default':
+            return isTruthy(value) ? value : arg;
+    }
+    return value;
+}
+
+const toText = (value: TemplateValue): string => value === null || value === undefined ? '' : String(value);
+
+// Empty strings, 0, false and missing values are false, like in JavaScript
+const isTruthy = (value: TemplateValue): boolean => !!value;
+
+function evaluate(expression: Expression, context: TemplateContext): TemplateValue {
+    return expression.filters.reduce(applyFilter, context[expression.variable]);
+}
+
+function testCondition(condition: Condition, context: TemplateContext): boolean {
+    const value = evaluate(condition.left, context);
+    if (!condition.operator) return isTruthy(value);
+
+    const equal = toText(value).toLowerCase() === (condition.right || '').toLowerCase();
+    return condition.operator === '==' ? equal : !equal;
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext): string {
+    return nodes.map(node => {
+        switch (node.kind) {
+            case 'text':
+                return node.text;
+            case 'output':
+                return toText(evaluate(node.expression, context));
+            case 'if':
+                return renderNodes(testCondition(node.condition, context) !== node.negate ? node.then : node.otherwise, context);
+        }
+    }).join('');
+}
+
+// Parsed templates, keyed by their source; blocks render the same few formats over and over
+const parsed = new Map<string, TemplateNode[]>();
+
+function compile(template: string): TemplateNode[] {
+    let nodes = parsed.get(template);
+    if (!nodes) {
+        nodes = parseTemplate(template);
+        parsed.set(template, nodes);
+    }
+    return nodes;
+}
+
+// Names of the placeholders a template uses, in order of first use
+function variables(nodes: TemplateNode[], names: string[] = []): string[] {
+    const add = (name: string) => {
+        if (!names.includes(name)) names.push(name);
+    };
+    nodes.forEach(node => {
+        if (node.kind === 'output') {
+            add(node.expression.variable);
+        } else if (node.kind === 'if') {
+            add(node.condition.left.variable);
+            variables(node.then, names);
+            variables(node.otherwise, names);
+        }
+    });
+    return names;
+}
+
+// Throws TemplateError if the template can't be parsed.
+// Returns the placeholders it uses that aren't among the given ones, since those render as empty text.
+export function checkTemplate(template: string, placeholders: string[] = FILE_PLACEHOLDERS): string[] {
+    return variables(compile(template)).filter(name => !placeholders.includes(name));
+}
+
+// Unknown placeholders render as empty text. Throws TemplateError for invalid templates.
+export function renderTemplate(template: string, context: TemplateContext): string {
+    return renderNodes(compile(template), context);
+}
+
+// Keys of fileContext
+export const FILE_PLACEHOLDERS = [
+    'name', 'filename', 'ext', 'size', 'sizekb', 'sizemb', 'type', 'mimetype', 'date', 'datetime', 'modified', 'created',
+    'favorite', 'tags', 'systemtags', 'owner', 'fileid', 'preview', 'path', 'relpath', 'link', 'downloadurl', 'folderlink', 'sharelink'
+];
+
+// Placeholders of search results, see formatSearchResult
+export const SEARCH_PLACEHOLDERS = ['title', 'subline', 'url', 'provider', 'thumbnail', ...FILE_PLACEHOLDERS];
+
+// Values of the file placeholders available in format templates and table columns
+export function fileContext(file: NextcloudFile, links: FileLinks, shareLink = ''): TemplateContext {
+    const name = file.name;
+    const ext = name.includes('.') ? name.split('.').pop() || '' : '';
+    const filename = name.includes('.') ? name.substring(0, name.lastIndexOf('.')) : name;
+    const sizeKB = (file.size / 1024).toFixed(2);
+    const sizeMB = (file.size / (1024 * 1024)).toFixed(2);
+    const dateObj = file.mtime ? new Date(file.mtime) : null;
+    const dateFormatted = dateObj ? dateObj.toLocaleDateString() : '';
+    const dateTimeFormatted = dateObj ? dateObj.toLocaleString() : '';
+
+    return {
+        name,
+        filename,
+        ext,
+        size: file.size,
+        sizekb: sizeKB,
+        sizemb: sizeMB,
+        type: file.type,
+        mimetype: file.mime,
+        date: dateFormatted,
+        datetime: dateTimeFormatted,
+        modified: dateObj ? dateObj.toUTCString() : '',
+        created: file.ctime ? new Date(file.ctime).toISOString() : '',
+        favorite: file.favorite ? '⭐' : '',
+        tags: file.tags.join(', '),
+        systemtags: file.systemTags.join(', '),
+        owner: file.owner,
+        fileid: file.fileid,
+        preview: file.hasPreview ? '📷' : '',
+        path: file.path,
+        relpath: file.relativePath,
+        link: links.link,
+        downloadurl: links.downloadurl,
+        folderlink: links.folderlink,
+        sharelink: shareLink
+    };
+}
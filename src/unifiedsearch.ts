@@ -0,0 +1,209 @@
+// `command: Search` blocks and the search command, backed by Nextcloud's unified search OCS API.
+// File results are looked up over WebDAV so the usual placeholders work on them too.
+import { App, Component, Menu, Notice, SuggestModal } from 'obsidian';
+import type NextcloudPlugin from './main';
+import { NextcloudFile } from './model';
+import { NextcloudAccount } from './settings';
+import { markdownLink } from './links';
+import { ocsRequest } from './ocs';
+import { renderTemplate } from './template';
+
+// Provider registered by the Full text search app
+const FULLTEXT_PROVIDER = 'fulltextsearch';
+
+export interface SearchProvider {
+    id: string;
+    name: string;
+}
+
+export interface SearchOptions {
+    term: string;
+    // Provider ids, or ['all'] for every provider the server offers
+    providers: string[];
+    // Also ask the Full text search app for file results when it is installed
+    fulltext: boolean;
+    limit: number;
+}
+
+export interface SearchResult {
+    provider: string;
+    title: string;
+    subline: string;
+    url: string;
+    thumbnail: string;
+    // Metadata of the matching file, for results from file providers
+    file: NextcloudFile | null;
+}
+
+interface OcsSearchEntry {
+    title: string;
+    subline: string;
+    resourceUrl: string;
+    thumbnailUrl: string;
+    attributes?: Record<string, string>;
+}
+
+const providerCache = new Map<string, Promise<SearchProvider[]>>();
+
+export function getSearchProviders(plugin: NextcloudPlugin, account: NextcloudAccount): Promise<SearchProvider[]> {
+    let providers = providerCache.get(account.id);
+    if (!providers) {
+        providers = ocsRequest(plugin, account, 'GET', '/search/providers') as Promise<SearchProvider[]>;
+        providers.catch(() => providerCache.delete(account.id));
+        providerCache.set(account.id, providers);
+    }
+    return providers;
+}
+
+async function resolveProviders(plugin: NextcloudPlugin, account: NextcloudAccount, options: SearchOptions): Promise<string[]> {
+    const available = (await getSearchProviders(plugin, account)).map(provider => provider.id);
+
+    let ids: string[];
+    if (options.providers.includes('all')) {
+        ids = available.filter(id => id !== FULLTEXT_PROVIDER);
+    } else {
+        options.providers.forEach(id => {
+            if (!available.includes(id)) {
+                throw new Error(`Unknown search provider "${id}". Available: ${available.join(', ')}`);
+            }
+        });
+        ids = options.providers.slice();
+    }
+
+    if (options.fulltext && ids.includes('files') && available.includes(FULLTEXT_PROVIDER)) {
+        ids.push(FULLTEXT_PROVIDER);
+    }
+    return ids;
+}
+
+export async function unifiedSearch(plugin: NextcloudPlugin, account: NextcloudAccount, options: SearchOptions): Promise<SearchResult[]> {
+    const providers = await resolveProviders(plugin, account, options);
+    const serverUrl = plugin.getServerUrl(account);
+    const query = `term=${encodeURIComponent(options.term)}&limit=${options.limit}`;
+
+    const batches = await Promise.all(providers.map(async provider => {
+        const data = await ocsRequest(plugin, account, 'GET', `/search/providers/${encodeURIComponent(provider)}/search?${query}`) as { entries: OcsSearchEntry[] };
+        return data.entries.map(entry => ({ provider, entry }));
+    }));
+
+    // The same file can come back from both the files and the full text provider
+    const seen = new Set<string>();
+    const results: Array<{ provider: string, entry: OcsSearchEntry }> = [];
+    batches.forEach(batch => batch.forEach(item => {
+        const key = item.entry.attributes?.path || item.entry.resourceUrl;
+        if (seen.has(key)) return;
+        seen.add(key);
+        results.push(item);
+    }));
+
+    return await Promise.all(results.slice(0, options.limit).map(async ({ provider, entry }) => {
+        const path = entry.attributes?.path;
+        const file = path ? await plugin.stat(path, account).catch((): NextcloudFile | null => null) : null;
+        const absolute = (url: string) => url && url.startsWith('/') ? serverUrl + url : url || '';
+        return {
+            provider,
+            title: entry.title,
+            subline: entry.subline || '',
+            url: absolute(entry.resourceUrl),
+            thumbnail: absolute(entry.thumbnailUrl),
+            file
+        };
+    }));
+}
+
+// Search placeholders first; file placeholders are filled in for file results and left empty otherwise
+export function formatSearchResult(plugin: NextcloudPlugin, result: SearchResult, format: string): string {
+    return renderTemplate(format || '{{title}}', {
+        ...(result.file ? plugin.fileContext(result.file) : {}),
+        title: result.title,
+        subline: result.subline,
+        url: result.url,
+        provider: result.provider,
+        thumbnail: result.thumbnail
+    });
+}
+
+export function renderSearchResults(plugin: NextcloudPlugin, el: HTMLElement, results: SearchResult[], params: Record<string, unknown>, sourcePath: string, component: Component) {
+    const ul = el.createEl('ul');
+    if (params['list-style'] === 'none') {
+        ul.addClass('nextcloud-no-bullets');
+    }
+
+    results.forEach(result => {
+        const li = ul.createEl('li');
+        const text = formatSearchResult(plugin, result, params['format'] as string);
+
+        if (result.file) {
+            const file = result.file;
+            li.addEventListener('contextmenu', (event: MouseEvent) => {
+                const menu = new Menu();
+                plugin.addFileMenuItems(menu, file, plugin.getFileLinks(file));
+                menu.showAtMouseEvent(event);
+            });
+        }
+
+        if (plugin.renderInlineMarkdown(li, text, sourcePath, component)) return;
+
+        if (params['link'] === 'none') {
+            li.setText(text);
+        } else {
+            li.createEl('a', { text, href: result.url, cls: 'external-link' });
+        }
+        if (!params['format'] && result.subline) {
+            li.createSpan({ text: result.subline, cls: 'nextcloud-search-subline' });
+        }
+    });
+}
+
+// Searches every provider as you type, like the search bar of the Nextcloud web interface
+export class UnifiedSearchModal extends SuggestModal<SearchResult> {
+    plugin: NextcloudPlugin;
+    // Only the latest keystroke's search is shown
+    private requestId = 0;
+    private lastResults: SearchResult[] = [];
+
+    constructor(app: App, plugin: NextcloudPlugin) {
+        super(app);
+        this.plugin = plugin;
+        this.setPlaceholder('Search Nextcloud...');
+        this.setInstructions([
+            { command: '↵', purpose: 'to open in Nextcloud' },
+            { command: 'shift ↵', purpose: 'to insert a link' }
+        ]);
+    }
+
+    async getSuggestions(query: string): Promise<SearchResult[]> {
+        const id = ++this.requestId;
+        if (query.trim().length < 2) return [];
+
+        await sleep(300);
+        if (id !== this.requestId) return this.lastResults;
+
+        try {
+            const results = await unifiedSearch(this.plugin, this.plugin.getAccount(), {
+                term: query.trim(),
+                providers: ['all'],
+                fulltext: true,
+                limit: 5
+            });
+            if (id === this.requestId) this.lastResults = results;
+            return results;
+        } catch (error) {
+            new Notice(`Nextcloud search failed: ${error.message}`);
+            return [];
+        }
+    }
+
+    renderSuggestion(result: SearchResult, el: HTMLElement) {
+        el.createDiv({ text: result.title });
+        el.createEl('small', { text: [result.subline, result.provider].filter(part => part).join(' · '), cls: 'nextcloud-search-subline' });
+    }
+
+    onChooseSuggestion(result: SearchResult, evt: MouseEvent | KeyboardEvent) {
+        if (evt.shiftKey) {
+            this.plugin.insertAtCursor(markdownLink(result.title, result.url));
+        } else {
+            window.open(result.url);
+        }
+    }
+}
@@ -0,0 +1,231 @@
+// Uploads vault attachments to Nextcloud over WebDAV and swaps their embeds for links.
+import { Editor, Notice, TFile } from 'obsidian';
+import type NextcloudPlugin from './main';
+import { obsidianFetch } from './adapter';
+import { NextcloudFile } from './model';
+import { markdownLink } from './links';
+import { createShareLink } from './sharing';
+import { DavError } from './webdav';
+
+// Files larger than this are sent with Nextcloud's chunked upload (v2)
+const CHUNK_SIZE = 10 * 1024 * 1024;
+
+export interface Embed {
+    // The embed exactly as written in the note, e.g. ![[scan.pdf|300]]
+    text: string;
+    linkpath: string;
+    from: number;
+    to: number;
+}
+
+const encodePath = (path: string): string => path.split('/').map(encodeURIComponent).join('/');
+
+export async function davRequest(plugin: NextcloudPlugin, url: string, method: string, headers: Record<string, string> = {}, body?: ArrayBuffer, account = plugin.getAccount()): Promise<Response> {
+    const response = await obsidianFetch(url, {
+        method,
+        headers: { 'Authorization': plugin.getAuthHeader(account), ...headers },
+        body
+    });
+    if (!response.ok) {
+        throw new Error(`${method} ${decodeURIComponent(url)} failed with status ${response.status}`);
+    }
+    return response;
+}
+
+// Create every missing folder along the path; MKCOL answers 405 when a folder already exists
+export async function ensureFolder(plugin: NextcloudPlugin, folder: string, account = plugin.getAccount()) {
+    let current = '';
+    for (const segment of folder.split('/').filter(s => s)) {
+        current += '/' + segment;
+        const response = await obsidianFetch(plugin.getRemoteUrl(current, account), {
+            method: 'MKCOL',
+            headers: { 'Authorization': plugin.getAuthHeader(account) }
+        });
+        if (!response.ok && response.status !== 405) {
+            throw new Error(`Could not create folder ${current} (status ${response.status})`);
+        }
+    }
+}
+
+// Only a 404 means the path is free; any other error could hide an existing file
+async function exists(plugin: NextcloudPlugin, path: string): Promise<boolean> {
+    const response = await obsidianFetch(plugin.getRemoteUrl(path), {
+        method: 'PROPFIND',
+        headers: { 'Authorization': plugin.getAuthHeader(), 'Depth': '0' }
+    });
+    if (response.status === 404) return false;
+    if (!response.ok) throw new DavError(response.status);
+    return true;
+}
+
+// Append " (1)", " (2)", ... to the name until it doesn't collide with a remote file
+async function uniqueRemotePath(plugin: NextcloudPlugin, folder: string, name: string): Promise<string> {
+    const prefix = folder === '/' ? '' : folder;
+    const dot = name.lastIndexOf('.');
+    const base = dot > 0 ? name.substring(0, dot) : name;
+    const ext = dot > 0 ? name.substring(dot) : '';
+
+    let candidate = `${prefix}/${name}`;
+    for (let i = 1; await exists(plugin, candidate); i++) {
+        candidate = `${prefix}/${base} (${i})${ext}`;
+    }
+    return candidate;
+}
+
+async function uploadChunked(plugin: NextcloudPlugin, remotePath: string, data: ArrayBuffer) {
+    const { davUrl, filesRoot } = plugin.getDavLocation();
+    const user = filesRoot.split('/').pop();
+    const uploadUrl = `${davUrl}uploads/${encodeURIComponent(user)}/obsidian-${Date.now()}`;
+    const destination = davUrl + encodePath(filesRoot + remotePath).substring(1);
+
+    await davRequest(plugin, uploadUrl, 'MKCOL', { 'Destination': destination });
+    try {
+        for (let offset = 0, index = 1; offset < data.byteLength; offset += CHUNK_SIZE, index++) {
+            // Chunks are numbered from 1 and reassembled in that order
+            await davRequest(plugin, `${uploadUrl}/${index}`, 'PUT', {
+                'Destination': destination,
+                'OC-Total-Length': String(data.byteLength)
+            }, data.slice(offset, offset + CHUNK_SIZE));
+        }
+        await davRequest(plugin, `${uploadUrl}/.file`, 'MOVE', {
+            'Destination': destination,
+            'OC-Total-Length': String(data.byteLength)
+        });
+    } catch (error) {
+        // Leave no half-finished upload behind on the server
+        await obsidianFetch(uploadUrl, { method: 'DELETE', headers: { 'Authorization': plugin.getAuthHeader() } }).catch(() => {});
+        throw error;
+    }
+}
+
+export async function uploadAttachment(plugin: NextcloudPlugin, file: TFile): Promise<NextcloudFile> {
+    // Attachments always go to the default account
+    const data = await plugin.app.vault.readBinary(file);
+    const folder = plugin.normalizeFolder(plugin.settings.uploadFolder || '/');
+
+    await ensureFolder(plugin, folder);
+    const remotePath = await uniqueRemotePath(plugin, folder, file.name);
+
+    if (data.byteLength > CHUNK_SIZE) {
+        await uploadChunked(plugin, remotePath, data);
+    } else {
+        await davRequest(plugin, plugin.getRemoteUrl(remotePath), 'PUT', {
+            'Content-Type': 'application/octet-stream'
+        }, data);
+    }
+
+    // Only treat the upload as done once the server reports the full file
+    const remote = await plugin.stat(remotePath);
+    if (remote.size !== data.byteLength) {
+        throw new Error(`Upload of ${file.name} could not be verified (expected ${data.byteLength} bytes, found ${remote.size})`);
+    }
+    return remote;
+}
+
+export function findEmbeds(text: string): Embed[] {
+    const embeds: Embed[] = [];
+
+    const wikiEmbed = /!\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|[^\]]*)?\]\]/g;
+    let match: RegExpExecArray | null;
+    while ((match = wikiEmbed.exec(text)) !== null) {
+        embeds.push({ text: match[0], linkpath: match[1].trim(), from: match.index, to: match.index + match[0].length });
+    }
+
+    // Markdown embeds pointing at remote URLs aren't attachments
+    const markdownEmbed = /!\[[^\]]*\]\(<?([^)>]+)>?\)/g;
+    while ((match = markdownEmbed.exec(text)) !== null) {
+        if (/^[a-z]+:\/\//i.test(match[1])) continue;
+        const link = match[1].trim();
+        let linkpath: string;
+        try {
+            linkpath = decodeURI(link);
+        } catch (error) {
+            // Not valid percent-encoding, e.g. "scan%.png"; take the link as written
+            linkpath = link;
+        }
+        embeds.push({ text: match[0], linkpath, from: match.index, to: match.index + match[0].length });
+    }
+
+    return embeds.sort((a, b) => a.from - b.from);
+}
+
+// Where the embed is in the current text: at its recorded offset if that still holds it,
+// otherwise the occurrence closest to it, since the note may have been edited in the meantime
+function locateEmbed(text: string, embed: Embed): number {
+    if (text.substring(embed.from, embed.to) === embed.text) return embed.from;
+    let best = -1;
+    for (let offset = text.indexOf(embed.text); offset !== -1; offset = text.indexOf(embed.text, offset + 1)) {
+        if (best === -1 || Math.abs(offset - embed.from) < Math.abs(best - embed.from)) best = offset;
+    }
+    return best;
+}
+
+export async function uploadEmbeds(plugin: NextcloudPlugin, editor: Editor, sourcePath: string, atCursorOnly: boolean) {
+    let embeds = findEmbeds(editor.getValue());
+    if (atCursorOnly) {
+        const cursor = editor.posToOffset(editor.getCursor());
+        embeds = embeds.filter(embed => cursor >= embed.from && cursor <= embed.to);
+    }
+
+    // Group embeds by attachment so each file is uploaded only once
+    const attachments = new Map<TFile, Embed[]>();
+    embeds.forEach(embed => {
+        const file = plugin.app.metadataCache.getFirstLinkpathDest(embed.linkpath, sourcePath);
+        if (!file || file.extension === 'md') return;
+        attachments.set(file, [...(attachments.get(file) || []), embed]);
+    });
+
+    if (attachments.size === 0) {
+        new Notice(atCursorOnly ? 'No attachment embed under the cursor.' : 'No attachments found in this note.');
+        return;
+    }
+
+    const uploaded: TFile[] = [];
+    for (const [file, fileEmbeds] of Array.from(attachments.entries())) {
+        const notice = new Notice(`Uploading ${file.name} to Nextcloud...`, 0);
+        try {
+            const remote = await uploadAttachment(plugin, file);
+            const url = plugin.settings.uploadLinkType === 'share'
+                ? await createShareLink(plugin, remote.path, { permission: 'read' })
+                : plugin.getFileLinks(remote).link;
+            const link = markdownLink(file.name, url);
+
+            // Look the embeds up again since the note may have changed while uploading
+            fileEmbeds.forEach(embed => {
+                const offset = locateEmbed(editor.getValue(), embed);
+                if (offset === -1) return;
+                editor.replaceRange(link, editor.offsetToPos(offset), editor.offsetToPos(offset + embed.text.length));
+                // Keep the recorded positions of the embeds still to be replaced in step with the text
+                const shift = link.length - embed.text.length;
+                embeds.filter(other => other.from > offset).forEach(other => {
+                    other.from += shift;
+                    other.to += shift;
+                });
+            });
+            uploaded.push(file);
+        } catch (error) {
+            new Notice(`Could not upload ${file.name}: ${error.message}`);
+        } finally {
+            notice.hide();
+        }
+    }
+
+    if (plugin.settings.trashAfterUpload) {
+        // Embeds that weren't replaced, e.g. besides the one under the cursor; the metadata cache may not have caught up yet
+        const remaining = findEmbeds(editor.getValue())
+            .map(embed => plugin.app.metadataCache.getFirstLinkpathDest(embed.linkpath, sourcePath));
+        for (const file of uploaded) {
+            // Keep attachments that this note or other notes still embed or link to
+            const resolvedLinks = plugin.app.metadataCache.resolvedLinks;
+            const usedElsewhere = remaining.includes(file) || Object.keys(resolvedLinks)
+                .some(source => source !== sourcePath && resolvedLinks[source][file.path]);
+            if (!usedElsewhere) {
+                await plugin.app.fileManager.trashFile(file);
+            }
+        }
+    }
+
+    if (uploaded.length > 0) {
+        new Notice(`Uploaded ${uploaded.length} attachment${uploaded.length === 1 ? '' : 's'} to Nextcloud`);
+    }
+}
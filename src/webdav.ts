@@ -0,0 +1,122 @@
+// WebDAV client for a Nextcloud account. Requests go through an injected transport: the plugin
+// uses Obsidian's requestUrl (see adapter.ts), the test suite plain fetch against a mock server.
+import { Filter } from './filters';
+import { NextcloudFile, parseMultistatus, propfindBody } from './model';
+import { buildSearchRequest } from './search';
+
+export interface DavRequest {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    body?: string | ArrayBuffer;
+}
+
+export interface DavResponse {
+    status: number;
+    headers: Record<string, string>;
+    text: string;
+}
+
+// Resolves with the server's answer whatever its status; rejects only when the server can't be reached
+export type DavTransport = (request: DavRequest) => Promise<DavResponse>;
+
+// The parts of an account the client needs
+export interface DavAccount {
+    id: string;
+    nextcloudUrl: string;
+    username: string;
+    password: string;
+}
+
+// HTTP errors carry the status, so callers can tell them from network errors (which have none)
+export class DavError extends Error {
+    status: number;
+
+    constructor(status: number) {
+        super(`Server returned status ${status}`);
+        this.name = 'DavError';
+        this.status = status;
+    }
+}
+
+// Credentials are sent as UTF-8, which btoa can't encode on its own
+export function authHeader(account: Pick<DavAccount, 'username' | 'password'>): string {
+    let binary = '';
+    new TextEncoder().encode(account.username + ':' + account.password).forEach(byte => {
+        binary += String.fromCharCode(byte);
+    });
+    return 'Basic ' + btoa(binary);
+}
+
+// WebDAV URL of a path below the user's root
+export function remoteUrl(account: DavAccount, path: string): string {
+    let baseUrl = account.nextcloudUrl;
+    if (baseUrl.endsWith('/')) baseUrl = baseUrl.slice(0, -1);
+    return baseUrl + path.split('/').map(encodeURIComponent).join('/');
+}
+
+export function davLocation(account: DavAccount): { davUrl: string, filesRoot: string } {
+    // Expects a URL of the form https://host/remote.php/dav/files/<user>/
+    const match = account.nextcloudUrl.match(/^(.*\/remote\.php\/dav)(\/files\/[^/]+)/);
+    if (!match) {
+        throw new Error('Server-side search requires a Nextcloud URL ending in /remote.php/dav/files/<username>/.');
+    }
+    return { davUrl: match[1] + '/', filesRoot: decodeURIComponent(match[2]) };
+}
+
+export class DavClient {
+    constructor(private transport: DavTransport, private account: DavAccount) {}
+
+    async request(method: string, url: string, headers: Record<string, string> = {}, body?: string): Promise<DavResponse> {
+        const response = await this.transport({
+            url,
+            method,
+            headers: { 'Authorization': authHeader(this.account), ...headers },
+            body
+        });
+        if (response.status < 200 || response.status >= 300) {
+            throw new DavError(response.status);
+        }
+        return response;
+    }
+
+    // Files parsed from a multistatus response, tagged with the account they came from
+    parseFiles(xml: string): NextcloudFile[] {
+        const basePath = decodeURIComponent(new URL(this.account.nextcloudUrl).pathname).replace(/\/$/, '');
+        const files = parseMultistatus(xml, basePath);
+        files.forEach(file => file.account = this.account.id);
+        return files;
+    }
+
+    // The folder itself (depth 0), or the folder and its direct children (depth 1)
+    async propfind(folder: string, depth: '0' | '1'): Promise<NextcloudFile[]> {
+        const response = await this.request('PROPFIND', remoteUrl(this.account, folder), {
+            'Depth': depth,
+            'Content-Type': 'application/xml'
+        }, propfindBody);
+        return this.parseFiles(response.text);
+    }
+
+    async stat(path: string): Promise<NextcloudFile> {
+        const files = await this.propfind(path, '0');
+        const file = files.find(f => f.path === path) || files[0];
+        if (!file) {
+            throw new Error(`Not found: ${path}`);
+        }
+        return file;
+    }
+
+    // Everything below scope matching the filters the server can evaluate; the rest is returned for the caller to apply
+    async search(scope: string, filters: Filter[] | undefined, parseDate: (value: string) => Date, limit: number): Promise<{ files: NextcloudFile[], remainingFilters: Filter[] }> {
+        const location = davLocation(this.account);
+        const search = buildSearchRequest(
+            location.filesRoot + (scope === '/' ? '' : scope),
+            filters,
+            parseDate,
+            limit
+        );
+
+        const response = await this.request('SEARCH', location.davUrl, { 'Content-Type': 'text/xml' }, search.body);
+        return { files: this.parseFiles(response.text), remainingFilters: search.remainingFilters };
+    }
+}
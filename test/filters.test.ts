@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Filter, globToRegExp, matchesFilters, parseRelativeDate } from '../src/filters';
+import { NextcloudFile } from '../src/model';
+import { groupEntries } from '../src/sort';
+
+function file(path: string, overrides: Partial<NextcloudFile> = {}): NextcloudFile {
+    return {
+        account: 'test',
+        path,
+        relativePath: path.substring(1),
+        name: path.split('/').pop() || '',
+        type: 'file',
+        size: 0,
+        mime: 'text/plain',
+        mtime: Date.UTC(2024, 5, 15),
+        ctime: null,
+        fileid: '',
+        etag: '',
+        permissions: '',
+        tags: [],
+        systemTags: [],
+        favorite: false,
+        owner: 'Alice',
+        hasPreview: false,
+        ...overrides
+    };
+}
+
+const parseDate = (value: string) => new Date(value);
+const matches = (target: NextcloudFile, filters: Filter[]) => matchesFilters(target, filters, parseDate);
+
+test('requires every condition of a filter', () => {
+    const report = file('/Docs/report.pdf', { size: 5000, mime: 'application/pdf' });
+    assert.ok(matches(report, [{ extension: 'pdf, docx', minsize: '1000' }]));
+    assert.ok(!matches(report, [{ extension: 'pdf', maxsize: '1000' }]));
+    assert.ok(matches(report, []));
+});
+
+test('matches MIME types with wildcards', () => {
+    const photo = file('/beach.jpg', { mime: 'image/jpeg' });
+    assert.ok(matches(photo, [{ mimetype: 'image/*' }]));
+    assert.ok(matches(photo, [{ mimetype: 'application/pdf, IMAGE/JPEG' }]));
+    assert.ok(!matches(photo, [{ mimetype: 'image/png' }]));
+    assert.ok(!matches(file('/a.pdf', { mime: 'application/pdf' }), [{ mimetype: 'image/*' }]));
+    // Groups that mix in client-side conditions are evaluated here rather than on the server
+    assert.ok(matches(photo, [{ any: [{ mimetype: 'image/*' }, { tag: 'x' }] }]));
+});
+
+test('matches names, paths and regular expressions', () => {
+    const target = file('/Projects/2024/Plan Final.md');
+    assert.ok(matches(target, [{ name: '*final*' }]));
+    assert.ok(matches(target, [{ path: 'Projects/**/*.md' }]));
+    assert.ok(!matches(target, [{ path: 'Archive/**' }]));
+    assert.ok(matches(target, [{ nameregex: '/^plan/i' }]));
+    assert.throws(() => matches(target, [{ nameregex: '/[/' }]), /Invalid nameregex/);
+});
+
+test('evaluates any, all and not groups', () => {
+    const target = file('/a.md', { favorite: true, systemTags: ['Review'] });
+    assert.ok(matches(target, [{ any: [{ extension: 'txt' }, { favorite: 'true' }] }]));
+    assert.ok(!matches(target, [{ all: [{ extension: 'md' }, { favorite: 'false' }] }]));
+    assert.ok(!matches(target, [{ not: [{ systemtag: 'review' }] }]));
+    assert.ok(matches(target, [{ not: [{ systemtag: 'rev' }] }]));
+    assert.ok(matches(target, [{ favorite: 'TRUE', haspreview: 'False' }]));
+});
+
+test('compares modification dates', () => {
+    const target = file('/a.md');
+    assert.ok(matches(target, [{ modifiedafter: '2024-06-01', modifiedbefore: '2024-07-01' }]));
+    assert.ok(!matches(target, [{ modifiedafter: '2024-06-16' }]));
+});
+
+test('parses date arithmetic', () => {
+    const date = parseRelativeDate('2024-01-31T00:00:00 + 2 days');
+    assert.equal(date.getDate(), 2);
+    assert.equal(date.getMonth(), 1);
+    assert.ok(Math.abs(parseRelativeDate('now - 1 hour').getTime() - (Date.now() - 3600000)) < 1000);
+    assert.throws(() => parseRelativeDate('yesterday'), /Invalid date "yesterday"/);
+});
+
+test('converts globs to regular expressions', () => {
+    assert.ok(globToRegExp('*.md').test('Notes.MD'));
+    assert.ok(!globToRegExp('*.md').test('notes.md.bak'));
+    assert.ok(globToRegExp('report-?.pdf').test('report-1.pdf'));
+});
+
+test('groups entries in the order of their first entry', () => {
+    const groups = groupEntries([
+        file('/b/one.md'),
+        file('/a/two.txt'),
+        file('/b/three.md'),
+        file('/a', { type: 'folder', name: 'a' })
+    ], 'extension');
+    assert.deepEqual(groups.map(group => [group.label, group.files.length]), [['md', 2], ['txt', 1], ['Folders', 1]]);
+    assert.deepEqual(groupEntries([file('/b/one.md'), file('/top.md')], 'folder').map(group => group.label), ['/b', '/']);
+});
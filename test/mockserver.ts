@@ -0,0 +1,233 @@
+// In-memory WebDAV server that answers PROPFIND and SEARCH like Nextcloud's /remote.php/dav,
+// plus a fetch-based transport for talking to it from the tests.
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { DavTransport } from '../src/webdav';
+
+export interface MockFile {
+    // Path below the user's root, e.g. /Documents/report.pdf
+    path: string;
+    type?: 'file' | 'folder';
+    size?: number;
+    mime?: string;
+    mtime?: number;
+    fileid?: string;
+    etag?: string;
+    favorite?: boolean;
+    tags?: string[];
+    systemTags?: string[];
+    owner?: string;
+}
+
+export interface MockOptions {
+    files: MockFile[];
+    // Where Nextcloud is installed, e.g. /nextcloud for https://host/nextcloud/
+    root?: string;
+    user?: string;
+    password?: string;
+    // Status to answer with instead, by decoded path below the user's root
+    errors?: Record<string, number>;
+    // Answer with absolute URLs instead of paths in <d:href>
+    absoluteHrefs?: boolean;
+    // List the 404 propstat (properties the server doesn't have) before the 200 one
+    notFoundFirst?: boolean;
+}
+
+export interface RecordedRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string | string[] | undefined>;
+    body: string;
+}
+
+const escapeXml = (value: string): string => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const unescapeXml = (value: string): string => value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&');
+
+const encodePath = (path: string): string => path.split('/').map(encodeURIComponent).join('/');
+
+const parentOf = (path: string): string => path.substring(0, path.lastIndexOf('/')) || '/';
+
+export class MockDavServer {
+    requests: RecordedRequest[] = [];
+    baseUrl = '';
+    private server: Server;
+    private files = new Map<string, MockFile>();
+    private root: string;
+    private user: string;
+    private password: string;
+
+    constructor(private options: MockOptions) {
+        this.root = options.root || '';
+        this.user = options.user || 'alice';
+        this.password = options.password || 'secret';
+
+        this.files.set('/', { path: '/', type: 'folder' });
+        options.files.forEach(file => {
+            // Parent folders exist implicitly
+            for (let parent = parentOf(file.path); !this.files.has(parent); parent = parentOf(parent)) {
+                this.files.set(parent, { path: parent, type: 'folder' });
+            }
+            this.files.set(file.path, file);
+        });
+    }
+
+    // What to enter as the Nextcloud URL in the plugin settings
+    get davUrl(): string {
+        return `${this.baseUrl}${this.root}/remote.php/dav/files/${encodeURIComponent(this.user)}/`;
+    }
+
+    async start() {
+        this.server = createServer((request, response) => {
+            let body = '';
+            request.setEncoding('utf8');
+            request.on('data', chunk => body += chunk);
+            request.on('end', () => this.handle(request, body, response));
+        });
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+        this.baseUrl = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    async stop() {
+        await new Promise<void>(resolve => this.server.close(() => resolve()));
+    }
+
+    private handle(request: IncomingMessage, body: string, response: ServerResponse) {
+        const method = request.method || 'GET';
+        const url = request.url || '/';
+        this.requests.push({ method, url, headers: request.headers, body });
+
+        const expected = 'Basic ' + Buffer.from(`${this.user}:${this.password}`, 'utf8').toString('base64');
+        if (request.headers['authorization'] !== expected) {
+            response.writeHead(401, { 'WWW-Authenticate': 'Basic realm="Nextcloud"' });
+            response.end();
+            return;
+        }
+
+        const davRoot = `${this.root}/remote.php/dav/`;
+        const filesRoot = `${davRoot}files/${encodeURIComponent(this.user)}`;
+        if (method === 'SEARCH' && url === davRoot) {
+            this.search(body, response);
+        } else if (method === 'PROPFIND' && (url === filesRoot || url.startsWith(filesRoot + '/'))) {
+            const path = '/' + url.substring(filesRoot.length).split('/').filter(s => s).map(decodeURIComponent).join('/');
+            this.propfind(path, request.headers['depth'] === '0' ? 0 : 1, response);
+        } else {
+            response.writeHead(405);
+            response.end();
+        }
+    }
+
+    private propfind(path: string, depth: number, response: ServerResponse) {
+        const error = this.options.errors?.[path];
+        if (error) {
+            response.writeHead(error);
+            response.end();
+            return;
+        }
+        const resource = this.files.get(path);
+        if (!resource) {
+            response.writeHead(404);
+            response.end();
+            return;
+        }
+
+        const entries = [resource];
+        if (depth === 1 && resource.type === 'folder') {
+            this.files.forEach(file => {
+                if (file.path !== '/' && file.path !== path && parentOf(file.path) === path) entries.push(file);
+            });
+        }
+        this.multistatus(entries, response);
+    }
+
+    // Returns everything below the scope; the tests check the request body for the translated filters
+    private search(body: string, response: ServerResponse) {
+        // The client sends the scope as a decoded path, e.g. /files/alice/Documents
+        const scope = unescapeXml(body.match(/<d:href>(.*?)<\/d:href>/)?.[1] || '');
+        const prefix = `/files/${this.user}`;
+        if (!scope.startsWith(prefix)) {
+            response.writeHead(400);
+            response.end();
+            return;
+        }
+        const path = scope.substring(prefix.length) || '/';
+        if (!this.files.has(path)) {
+            response.writeHead(404);
+            response.end();
+            return;
+        }
+
+        const below = path === '/' ? '/' : path + '/';
+        const entries: MockFile[] = [];
+        this.files.forEach(file => {
+            if (file.path !== '/' && file.path.startsWith(below)) entries.push(file);
+        });
+        this.multistatus(entries, response);
+    }
+
+    private multistatus(entries: MockFile[], response: ServerResponse) {
+        const responses = entries.map(file => {
+            const folder = file.type === 'folder';
+            let href = `${this.root}/remote.php/dav/files/${encodeURIComponent(this.user)}${encodePath(file.path === '/' ? '' : file.path)}${folder ? '/' : ''}`;
+            if (this.options.absoluteHrefs) href = this.baseUrl + href;
+
+            const found = `
+        <d:propstat>
+            <d:prop>
+                <d:displayname>${escapeXml(file.path === '/' ? '' : file.path.split('/').pop() || '')}</d:displayname>
+                <d:getlastmodified>${new Date(file.mtime || 0).toUTCString()}</d:getlastmodified>
+                ${folder ? '' : `<d:getcontentlength>${file.size || 0}</d:getcontentlength>`}
+                ${folder ? '' : `<d:getcontenttype>${escapeXml(file.mime || 'application/octet-stream')}</d:getcontenttype>`}
+                <d:getetag>&quot;${escapeXml(file.etag || 'etag-' + file.path)}&quot;</d:getetag>
+                <d:resourcetype>${folder ? '<d:collection/>' : ''}</d:resourcetype>
+                <oc:size>${file.size || 0}</oc:size>
+                <oc:fileid>${escapeXml(file.fileid || '')}</oc:fileid>
+                <oc:favorite>${file.favorite ? 1 : 0}</oc:favorite>
+                <oc:tags>${(file.tags || []).map(tag => `<oc:tag>${escapeXml(tag)}</oc:tag>`).join('')}</oc:tags>
+                <nc:system-tags>${(file.systemTags || []).map(tag => `<nc:system-tag>${escapeXml(tag)}</nc:system-tag>`).join('')}</nc:system-tags>
+                <oc:owner-display-name>${escapeXml(file.owner || 'Alice')}</oc:owner-display-name>
+                <oc:permissions>RGDNVW</oc:permissions>
+            </d:prop>
+            <d:status>HTTP/1.1 200 OK</d:status>
+        </d:propstat>`;
+            const notFound = `
+        <d:propstat>
+            <d:prop>
+                <d:creationdate/>
+                <nc:has-preview/>
+            </d:prop>
+            <d:status>HTTP/1.1 404 Not Found</d:status>
+        </d:propstat>`;
+
+            return `
+    <d:response>
+        <d:href>${escapeXml(href)}</d:href>${this.options.notFoundFirst ? notFound + found : found + notFound}
+    </d:response>`;
+        }).join('');
+
+        response.writeHead(207, { 'Content-Type': 'application/xml; charset=utf-8' });
+        response.end(`<?xml version="1.0" encoding="UTF-8"?>
+<d:multistatus xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns" xmlns:nc="http://nextcloud.org/ns">${responses}
+</d:multistatus>`);
+    }
+}
+
+export const fetchTransport: DavTransport = async request => {
+    const response = await fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body
+    });
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => headers[key] = value);
+    return { status: response.status, headers, text: await response.text() };
+};
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { hrefToPath, parseMultistatus, parseResources } from '../src/model';
+
+const BASE = '/remote.php/dav/files/alice';
+
+test('maps hrefs onto paths below the WebDAV root', () => {
+    assert.equal(hrefToPath('/remote.php/dav/files/alice/', BASE), '/');
+    assert.equal(hrefToPath('/remote.php/dav/files/alice/Notes/', BASE), '/Notes');
+    assert.equal(hrefToPath('/remote.php/dav/files/alice/Notes/Notes/todo.md', BASE), '/Notes/Notes/todo.md');
+    assert.equal(hrefToPath('/remote.php/dav/files/alice/caf%C3%A9%20%2B%20bar.md', BASE), '/café + bar.md');
+    assert.equal(hrefToPath('https://cloud.example.com/remote.php/dav/files/alice/a%23b.md', BASE), '/a#b.md');
+    // Invalid percent-encoding is taken as written
+    assert.equal(hrefToPath('/remote.php/dav/files/alice/100%.md', BASE), '/100%.md');
+    // A different base, e.g. when the configured URL uses another user name spelling
+    assert.equal(hrefToPath('/remote.php/dav/files/Alice/doc.md', BASE), '/doc.md');
+});
+
+test('reads responses regardless of the namespace prefixes', () => {
+    const xml = `<?xml version="1.0"?>
+<multistatus xmlns="DAV:" xmlns:OC="http://owncloud.org/ns">
+    <response>
+        <href>/remote.php/dav/files/alice/a.md</href>
+        <propstat>
+            <prop>
+                <getcontentlength>42</getcontentlength>
+                <OC:favorite>1</OC:favorite>
+                <resourcetype/>
+            </prop>
+            <status>HTTP/1.1 200 OK</status>
+        </propstat>
+    </response>
+</multistatus>`;
+    const [file] = parseMultistatus(xml, BASE);
+    assert.equal(file.path, '/a.md');
+    assert.equal(file.name, 'a.md');
+    assert.equal(file.size, 42);
+    assert.equal(file.favorite, true);
+    assert.equal(file.type, 'file');
+});
+
+test('merges 2xx propstats and skips the others', () => {
+    const xml = `<d:multistatus xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns">
+    <d:response>
+        <d:href>/remote.php/dav/files/alice/Docs/</d:href>
+        <d:propstat>
+            <d:prop><oc:size>9</oc:size></d:prop>
+            <d:status>HTTP/1.1 404 Not Found</d:status>
+        </d:propstat>
+        <d:propstat>
+            <d:prop><d:resourcetype><d:collection/></d:resourcetype></d:prop>
+            <d:status>HTTP/1.1 200 OK</d:status>
+        </d:propstat>
+        <d:propstat>
+            <d:prop><d:getetag>"abc"</d:getetag></d:prop>
+            <d:status>HTTP/1.1 200 OK</d:status>
+        </d:propstat>
+    </d:response>
+</d:multistatus>`;
+    const [file] = parseMultistatus(xml, BASE);
+    assert.equal(file.type, 'folder');
+    assert.equal(file.etag, 'abc');
+    assert.equal(file.size, 0);
+});
+
+test('decodes entities and keeps values as text', () => {
+    const xml = `<d:multistatus xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns" xmlns:nc="http://nextcloud.org/ns">
+    <d:response>
+        <d:href>/remote.php/dav/files/alice/R%26D.md</d:href>
+        <d:propstat>
+            <d:prop>
+                <d:displayname>R&amp;D &lt;1&gt;</d:displayname>
+                <oc:fileid>007</oc:fileid>
+                <oc:tags><oc:tag>a &amp; b</oc:tag></oc:tags>
+                <nc:system-tags><nc:system-tag>Done</nc:system-tag></nc:system-tags>
+            </d:prop>
+            <d:status>HTTP/1.1 200 OK</d:status>
+        </d:propstat>
+    </d:response>
+</d:multistatus>`;
+    const [file] = parseMultistatus(xml, BASE);
+    assert.equal(file.name, 'R&D <1>');
+    assert.equal(file.fileid, '007');
+    assert.deepEqual(file.tags, ['a & b']);
+    assert.deepEqual(file.systemTags, ['Done']);
+});
+
+test('rejects bodies that are not a multistatus', () => {
+    assert.throws(() => parseResources('<html><body>Login</body></html>'), /multistatus/);
+    assert.deepEqual(parseResources('<d:multistatus xmlns:d="DAV:"></d:multistatus>'), []);
+});
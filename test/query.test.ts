@@ -0,0 +1,134 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRelativeDate } from '../src/filters';
+import { parseQuery, QueryDiagnostic } from '../src/query';
+
+const parse = (source: string) => parseQuery(source, parseRelativeDate);
+
+const messages = (diagnostics: QueryDiagnostic[]) => diagnostics.map(d => `${d.severity} ${d.line}: ${d.message}`);
+
+test('reads indented and unindented filter lists', () => {
+    const indented = parse(`command: List Files
+folder: Docs
+filter:
+    - extension: pdf
+    - minsize: 100`);
+    const unindented = parse(`command: List Files
+folder: Docs
+filter:
+- extension: pdf
+- minsize: 100`);
+    assert.deepEqual(indented.diagnostics, []);
+    assert.deepEqual(unindented.diagnostics, []);
+    assert.deepEqual(indented.params['filter'], [{ extension: 'pdf' }, { minsize: '100' }]);
+    assert.deepEqual(unindented.params, indented.params);
+});
+
+test('reads keys aligned below "- key: value" as part of the same condition', () => {
+    const { params, diagnostics } = parse(`command: List Files
+filter:
+    - extension: md
+      owner: alice
+    - type: file`);
+    assert.deepEqual(diagnostics, []);
+    assert.deepEqual(params['filter'], [{ extension: 'md', owner: 'alice' }, { type: 'file' }]);
+});
+
+test('reads nested groups', () => {
+    const { params, diagnostics } = parse(`command: List Files
+filter:
+    - any:
+        - extension: pdf
+        - not:
+            - tag: draft
+    - favorite: true`);
+    assert.deepEqual(diagnostics, []);
+    assert.deepEqual(params['filter'], [
+        { any: [{ extension: 'pdf' }, { not: [{ tag: 'draft' }] }] },
+        { favorite: 'true' }
+    ]);
+});
+
+test('unquotes quoted scalars and keeps colons in values', () => {
+    const { params, diagnostics } = parse(`command: List Files
+folder: "Projects: 2024"
+format: {{name}}: {{size}} ({{date}})
+list-style: 'it''s'`);
+    assert.deepEqual(diagnostics, []);
+    assert.equal(params['folder'], 'Projects: 2024');
+    assert.equal(params['format'], '{{name}}: {{size}} ({{date}})');
+    assert.equal(params['list-style'], 'it\'s');
+});
+
+test('keeps values that only start and end with a quote as written', () => {
+    const { params, diagnostics } = parse(`command: List Files
+format: "{{name}}" - "{{size}}"
+list-style: 'a' or 'b'`);
+    assert.deepEqual(diagnostics, []);
+    assert.equal(params['format'], '"{{name}}" - "{{size}}"');
+    assert.equal(params['list-style'], '\'a\' or \'b\'');
+});
+
+test('accepts legacy "key; value" lines with a warning', () => {
+    const { params, diagnostics } = parse(`command: List Files
+folder; Docs`);
+    assert.equal(params['folder'], 'Docs');
+    assert.deepEqual(messages(diagnostics), ['warning 2: Use "folder: ..." instead of "folder; ..."']);
+});
+
+test('reports duplicate and unknown keys with their line numbers', () => {
+    const { params, diagnostics } = parse(`command: List Files
+# comment lines count too
+folder: A
+folder: B
+colour: red
+filter:
+    - extention: pdf`);
+    assert.equal(params['folder'], 'B');
+    assert.deepEqual(messages(diagnostics), [
+        'warning 4: Duplicate key "folder"; the last one is used',
+        'warning 5: Unknown key "colour" is ignored.',
+        'error 7: Unknown filter "extention". Did you mean "extension"?'
+    ]);
+});
+
+test('reports unknown commands and missing required keys', () => {
+    assert.deepEqual(messages(parse('command: List Fils').diagnostics), ['error 1: Unknown command "List Fils". Did you mean "List Files"?']);
+    assert.deepEqual(messages(parse('command: Search').diagnostics), ['error 1: Search needs a query: key']);
+    assert.deepEqual(messages(parse('folder: Docs').diagnostics), ['error 1: Missing command. Use one of: List Files, Search, Embed.']);
+});
+
+test('checks values against the schema', () => {
+    const { diagnostics } = parse(`command: List Files
+display: tabel
+limit: ten
+filter:
+    - modifiedafter: yesterday
+    - favorite: maybe`);
+    assert.deepEqual(diagnostics.map(d => [d.severity, d.line]), [['error', 2], ['error', 3], ['error', 5], ['error', 6]]);
+    assert.match(diagnostics[0].message, /Invalid display "tabel"/);
+});
+
+test('accepts enum and boolean values in any case and normalises them', () => {
+    const { params, diagnostics } = parse(`command: List Files
+display: Table
+recursive: TRUE
+filter:
+    - type: File
+    - favorite: True
+    - haspreview: 0`);
+    assert.deepEqual(diagnostics, []);
+    assert.equal(params['display'], 'table');
+    assert.equal(params['recursive'], 'true');
+    assert.deepEqual(params['filter'], [{ type: 'file' }, { favorite: 'true' }, { haspreview: 'false' }]);
+});
+
+test('warns about unknown placeholders in formats', () => {
+    assert.deepEqual(messages(parse('command: List Files\nformat: {{nmae}} - {{size}}').diagnostics), [
+        'warning 2: Unknown placeholder "{{nmae}}" renders as empty text. Did you mean "name"?'
+    ]);
+    assert.deepEqual(parse('command: Search\nquery: plan\nformat: {{title}} ({{provider}})').diagnostics, []);
+    assert.deepEqual(messages(parse('command: List Files\nformat: {{title}}').diagnostics), [
+        'warning 2: Unknown placeholder "{{title}}" renders as empty text.'
+    ]);
+});
@@ -0,0 +1,32 @@
+// Bundles test/*.test.ts with esbuild and runs them with Node's built-in test runner.
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const testDir = new URL(".", import.meta.url).pathname;
+const entryPoints = readdirSync(testDir)
+	.filter(name => name.endsWith(".test.ts"))
+	.map(name => join(testDir, name));
+
+const outdir = mkdtempSync(join(tmpdir(), "nextcloud-tests-"));
+let status = 1;
+try {
+	await esbuild.build({
+		entryPoints,
+		outdir,
+		bundle: true,
+		platform: "node",
+		format: "cjs",
+		target: "node18",
+		// The tested modules must not need Obsidian at runtime
+		external: ["obsidian"],
+		logLevel: "warning"
+	});
+	const files = readdirSync(outdir).map(name => join(outdir, name));
+	status = spawnSync(process.execPath, ["--test", ...files], { stdio: "inherit" }).status ?? 1;
+} finally {
+	rmSync(outdir, { recursive: true, force: true });
+}
+process.exit(status);
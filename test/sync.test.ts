@@ -0,0 +1,118 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { TFile } from 'obsidian';
+import { NextcloudFile } from '../src/model';
+import { checkSources, Manifest, planActions, SyncState } from '../src/syncplan';
+
+const localFile = (mtime: number, size = 10) => ({ stat: { mtime, size } } as unknown as TFile);
+
+const remoteFile = (relativePath: string, etag: string, fileid: string) => ({ relativePath, etag, fileid } as NextcloudFile);
+
+// One file on each side per entry: [path, local mtime or null, remote etag or null]
+function state(files: Array<[string, number | null, string | null]>, manifest: Manifest = {}): SyncState {
+    const local = new Map<string, TFile>();
+    const remote = new Map<string, NextcloudFile>();
+    files.forEach(([path, mtime, etag], index) => {
+        if (mtime !== null) local.set(path, localFile(mtime));
+        if (etag !== null) remote.set(path, remoteFile(path, etag, manifest[path]?.fileid ?? `new-${index}`));
+    });
+    return { local, remote, manifest };
+}
+
+const synced = (localMtime: number, etag: string, fileid: string) => ({ localMtime, localSize: 10, etag, fileid });
+
+test('plans nothing when neither side changed', () => {
+    const manifest = { 'a.md': synced(1, 'e1', '1'), 'b.md': synced(2, 'e2', '2') };
+    assert.deepEqual(planActions(state([['a.md', 1, 'e1'], ['b.md', 2, 'e2']], manifest)), []);
+});
+
+test('uploads, downloads and reports conflicts for known files', () => {
+    const manifest = { 'up.md': synced(1, 'e1', '1'), 'down.md': synced(2, 'e2', '2'), 'both.md': synced(3, 'e3', '3') };
+    const actions = planActions(state([['up.md', 5, 'e1'], ['down.md', 2, 'e2b'], ['both.md', 6, 'e3b']], manifest));
+    assert.deepEqual(actions, [
+        { type: 'upload', path: 'up.md' },
+        { type: 'download', path: 'down.md' },
+        { type: 'conflict', path: 'both.md' }
+    ]);
+});
+
+test('copies new files and compares files found on both sides before the first sync', () => {
+    const actions = planActions(state([['local.md', 1, null], ['remote.md', null, 'e1'], ['both.md', 1, 'e2']]));
+    assert.deepEqual(actions, [
+        { type: 'upload', path: 'local.md' },
+        { type: 'compare', path: 'both.md' },
+        { type: 'download', path: 'remote.md' }
+    ]);
+});
+
+test('deletes files removed on the other side unless they were edited since', () => {
+    const manifest = {
+        'gone-remote.md': synced(1, 'e1', '1'),
+        'edited-local.md': synced(2, 'e2', '2'),
+        'gone-local.md': synced(3, 'e3', '3'),
+        'edited-remote.md': synced(4, 'e4', '4')
+    };
+    const actions = planActions(state([
+        ['gone-remote.md', 1, null],
+        ['edited-local.md', 9, null],
+        ['gone-local.md', null, 'e3'],
+        ['edited-remote.md', null, 'e4b']
+    ], manifest));
+    assert.deepEqual(actions, [
+        { type: 'delete-local', path: 'gone-remote.md' },
+        { type: 'upload', path: 'edited-local.md' },
+        { type: 'delete-remote', path: 'gone-local.md' },
+        { type: 'download', path: 'edited-remote.md' }
+    ]);
+});
+
+test('forgets files deleted on both sides', () => {
+    assert.deepEqual(planActions(state([], { 'a.md': synced(1, 'e1', '1') })), []);
+});
+
+test('follows files renamed in Nextcloud by their file id', () => {
+    const manifest = { 'old.md': synced(1, 'e1', '7'), 'edited.md': synced(2, 'e2', '8') };
+    const local = new Map([['old.md', localFile(1)], ['edited.md', localFile(2)]]);
+    const remote = new Map([
+        ['new.md', remoteFile('new.md', 'e1', '7')],
+        ['moved/edited.md', remoteFile('moved/edited.md', 'e2b', '8')]
+    ]);
+    assert.deepEqual(planActions({ local, remote, manifest }), [
+        { type: 'rename-local', path: 'old.md', to: 'new.md' },
+        { type: 'rename-local', path: 'edited.md', to: 'moved/edited.md' },
+        { type: 'download', path: 'moved/edited.md' }
+    ]);
+});
+
+test('follows files renamed in the vault by their modification time and size', () => {
+    const manifest = { 'old.md': synced(1, 'e1', '7') };
+    const actions = planActions(state([['old.md', null, 'e1'], ['new.md', 1, null]], manifest));
+    assert.deepEqual(actions, [{ type: 'rename-remote', path: 'old.md', to: 'new.md' }]);
+});
+
+test('refuses to sync from a stale listing', () => {
+    // A cached listing from before the last upload lacks the uploaded file, which then looks deleted in Nextcloud
+    const manifest = { 'uploaded.md': synced(1, 'e1', '1') };
+    assert.deepEqual(planActions(state([['uploaded.md', 1, null]], manifest)), [{ type: 'delete-local', path: 'uploaded.md' }]);
+    assert.throws(
+        () => checkSources('Notes', '/Notes', { hasHistory: true, localExists: true, remoteExists: true, offline: true }),
+        /can't be reached/
+    );
+    assert.throws(
+        () => checkSources('Notes', '/Notes', { hasHistory: false, localExists: true, remoteExists: true, offline: true }),
+        /can't be reached/
+    );
+});
+
+test('creates missing folders only before the first sync', () => {
+    assert.doesNotThrow(() => checkSources('Notes', '/Notes', { hasHistory: false, localExists: false, remoteExists: false, offline: false }));
+    assert.doesNotThrow(() => checkSources('Notes', '/Notes', { hasHistory: true, localExists: true, remoteExists: true, offline: false }));
+    assert.throws(
+        () => checkSources('Notes', '/Notes', { hasHistory: true, localExists: false, remoteExists: true, offline: false }),
+        /Vault folder Notes is missing/
+    );
+    assert.throws(
+        () => checkSources('Notes', '/Notes', { hasHistory: true, localExists: true, remoteExists: false, offline: false }),
+        /Nextcloud folder \/Notes is missing/
+    );
+});
@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatDate, humanizeSize } from '../src/format';
+import { buildFileLinks } from '../src/links';
+import { NextcloudFile } from '../src/model';
+import { checkTemplate, FILE_PLACEHOLDERS, fileContext, renderTemplate, TemplateError } from '../src/template';
+
+test('renders placeholders and filters', () => {
+    const context = { name: 'Quarterly Report.pdf', size: 1536, owner: '', modified: '2024-03-05T14:07:09' };
+    assert.equal(renderTemplate('{{name}} ({{size | humanize}})', context), 'Quarterly Report.pdf (1.5 KB)');
+    assert.equal(renderTemplate('{{name | truncate:9}}', context), 'Quarterly…');
+    assert.equal(renderTemplate('{{name | truncate:9,"..." | upper}}', context), 'QUARTERLY...');
+    assert.equal(renderTemplate('{{owner | default:"nobody"}}', context), 'nobody');
+    assert.equal(renderTemplate('{{modified | date:"YYYY-MM-DD [at] HH:mm"}}', context), '2024-03-05 at 14:07');
+    assert.equal(renderTemplate('{{unknown}}!', context), '!');
+});
+
+test('renders conditionals', () => {
+    const template = '{{#if favorite}}★ {{/if}}{{name}}{{#unless ext == "md"}} [{{ext | upper}}]{{else}} (note){{/unless}}';
+    assert.equal(renderTemplate(template, { favorite: '⭐', name: 'a.pdf', ext: 'pdf' }), '★ a.pdf [PDF]');
+    assert.equal(renderTemplate(template, { favorite: '', name: 'b.md', ext: 'MD' }), 'b.md (note)');
+});
+
+test('rejects invalid templates', () => {
+    assert.throws(() => checkTemplate('{{name | shout}}'), TemplateError);
+    assert.throws(() => checkTemplate('{{#if name}}open'), /Unclosed {{#if}}/);
+    assert.throws(() => checkTemplate('{{/if}}'), /without a matching/);
+    assert.throws(() => checkTemplate('{{name | truncate}}'), /takes 1 to 2 arguments/);
+    assert.throws(() => checkTemplate('{{name | truncate:"x"}}'), /needs a length/);
+});
+
+test('lists unknown placeholders', () => {
+    assert.deepEqual(checkTemplate('{{name}} ({{size | humanize}})'), []);
+    assert.deepEqual(checkTemplate('{{nmae}}{{#if stars}}{{nmae}}{{else}}{{titel}}{{/if}}'), ['nmae', 'stars', 'titel']);
+    assert.deepEqual(checkTemplate('{{title}} {{name}}', ['title']), ['name']);
+});
+
+test('formats sizes and dates', () => {
+    assert.equal(humanizeSize(0), '0 B');
+    assert.equal(humanizeSize(512), '512 B');
+    assert.equal(humanizeSize(5 * 1024 * 1024), '5.0 MB');
+    assert.equal(formatDate(new Date(2024, 0, 9, 21, 5, 3), 'YY/M/D h:mm:ss A'), '24/1/9 9:05:03 PM');
+});
+
+test('provides the file placeholders', () => {
+    const file: NextcloudFile = {
+        account: 'test',
+        path: '/Docs/Plan v2.final.md',
+        relativePath: 'Plan v2.final.md',
+        name: 'Plan v2.final.md',
+        type: 'file',
+        size: 2048,
+        mime: 'text/markdown',
+        mtime: Date.UTC(2024, 0, 1),
+        ctime: null,
+        fileid: '42',
+        etag: 'e1',
+        permissions: 'RGDNVW',
+        tags: ['a', 'b'],
+        systemTags: ['Review'],
+        favorite: true,
+        owner: 'Alice',
+        hasPreview: false
+    };
+    const links = buildFileLinks(file, 'https://cloud.example.com', 'https://cloud.example.com/remote.php/dav/files/alice/');
+    const context = fileContext(file, links);
+
+    assert.deepEqual(Object.keys(context).sort(), [...FILE_PLACEHOLDERS].sort());
+
+    assert.equal(context.filename, 'Plan v2.final');
+    assert.equal(context.ext, 'md');
+    assert.equal(context.sizekb, '2.00');
+    assert.equal(context.tags, 'a, b');
+    assert.equal(context.systemtags, 'Review');
+    assert.equal(context.favorite, '⭐');
+    assert.equal(context.created, '');
+    assert.equal(context.sharelink, '');
+    assert.equal(context.link, 'https://cloud.example.com/index.php/f/42');
+    assert.equal(context.downloadurl, 'https://cloud.example.com/remote.php/dav/files/alice/Docs/Plan%20v2.final.md');
+    assert.equal(renderTemplate('{{filename}}: {{size | humanize}}', context), 'Plan v2.final: 2.0 KB');
+});
@@ -0,0 +1,139 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DavAccount, DavClient, DavError } from '../src/webdav';
+import { fetchTransport, MockDavServer, MockFile, MockOptions } from './mockserver';
+
+const FILES: MockFile[] = [
+    { path: '/Documents/report.pdf', size: 2048, mime: 'application/pdf', fileid: '12', favorite: true, tags: ['work'], systemTags: ['Finance', 'Q1 & Q2'] },
+    { path: '/Documents/Übersicht 2024.md', size: 10, mime: 'text/markdown' },
+    { path: '/Documents/日本語.txt', size: 5, mime: 'text/plain' },
+    { path: '/Documents/R&D <draft>.txt', mime: 'text/plain' },
+    { path: '/Documents/100% done.md', mime: 'text/markdown' },
+    { path: '/Documents/a+b #1?.txt', mime: 'text/plain' },
+    { path: '/Documents/Old Documents/notes.md', mime: 'text/markdown' },
+    { path: '/Photos/beach.jpg', size: 300000, mime: 'image/jpeg' }
+];
+
+async function withServer(options: Partial<MockOptions>, run: (server: MockDavServer, client: DavClient) => Promise<void>) {
+    const server = new MockDavServer({ files: FILES, ...options });
+    await server.start();
+    try {
+        const account: DavAccount = {
+            id: 'test',
+            nextcloudUrl: server.davUrl,
+            username: options.user || 'alice',
+            password: options.password || 'secret'
+        };
+        await run(server, new DavClient(fetchTransport, account));
+    } finally {
+        await server.stop();
+    }
+}
+
+test('lists a folder and its direct children', () => withServer({}, async (server, client) => {
+    const files = await client.propfind('/Documents', '1');
+    const paths = files.map(file => file.path).sort();
+    assert.deepEqual(paths, [
+        '/Documents',
+        '/Documents/100% done.md',
+        '/Documents/Old Documents',
+        '/Documents/R&D <draft>.txt',
+        '/Documents/a+b #1?.txt',
+        '/Documents/report.pdf',
+        '/Documents/Übersicht 2024.md',
+        '/Documents/日本語.txt'
+    ].sort());
+    assert.ok(files.every(file => file.account === 'test'));
+    assert.equal(server.requests[0].headers['depth'], '1');
+}));
+
+test('parses the file properties', () => withServer({}, async (_server, client) => {
+    const file = await client.stat('/Documents/report.pdf');
+    assert.equal(file.name, 'report.pdf');
+    assert.equal(file.type, 'file');
+    assert.equal(file.size, 2048);
+    assert.equal(file.mime, 'application/pdf');
+    assert.equal(file.fileid, '12');
+    assert.equal(file.etag, 'etag-/Documents/report.pdf');
+    assert.equal(file.favorite, true);
+    assert.deepEqual(file.tags, ['work']);
+    assert.deepEqual(file.systemTags, ['Finance', 'Q1 & Q2']);
+    assert.equal(file.owner, 'Alice');
+    assert.equal(file.ctime, null);
+
+    const folder = await client.stat('/Documents/Old Documents');
+    assert.equal(folder.type, 'folder');
+}));
+
+test('encodes and decodes special characters in paths', () => withServer({}, async (server, client) => {
+    for (const path of ['/Documents/Übersicht 2024.md', '/Documents/日本語.txt', '/Documents/R&D <draft>.txt', '/Documents/100% done.md', '/Documents/a+b #1?.txt']) {
+        const file = await client.stat(path);
+        assert.equal(file.path, path);
+        assert.equal(file.name, path.split('/').pop());
+    }
+    assert.ok(server.requests.some(request => request.url.endsWith('/Documents/100%25%20done.md')));
+    assert.ok(server.requests.some(request => request.url.endsWith('/Documents/a%2Bb%20%231%3F.txt')));
+}));
+
+test('keeps entries whose name repeats the folder name', () => withServer({}, async (_server, client) => {
+    const files = await client.propfind('/Documents', '1');
+    const nested = files.find(file => file.path === '/Documents/Old Documents');
+    assert.ok(nested);
+    assert.equal(nested.name, 'Old Documents');
+}));
+
+test('works with Nextcloud installed in a subfolder', () => withServer({ root: '/cloud/nextcloud' }, async (server, client) => {
+    const files = await client.propfind('/', '1');
+    assert.deepEqual(files.map(file => file.path).sort(), ['/', '/Documents', '/Photos']);
+
+    const result = await client.search('/Photos', undefined, value => new Date(value), 10);
+    assert.deepEqual(result.files.map(file => file.path), ['/Photos/beach.jpg']);
+    assert.equal(server.requests[server.requests.length - 1].url, '/cloud/nextcloud/remote.php/dav/');
+}));
+
+test('accepts absolute URLs as hrefs', () => withServer({ absoluteHrefs: true }, async (_server, client) => {
+    const file = await client.stat('/Documents/Übersicht 2024.md');
+    assert.equal(file.path, '/Documents/Übersicht 2024.md');
+}));
+
+test('ignores properties the server reports as not found', () => withServer({ notFoundFirst: true }, async (_server, client) => {
+    const file = await client.stat('/Photos/beach.jpg');
+    assert.equal(file.size, 300000);
+    assert.equal(file.mime, 'image/jpeg');
+    assert.equal(file.hasPreview, false);
+}));
+
+test('sends credentials as UTF-8', () => withServer({ user: 'jürgen', password: 'pässwörd€' }, async (_server, client) => {
+    const files = await client.propfind('/', '0');
+    assert.deepEqual(files.map(file => file.path), ['/']);
+}));
+
+test('translates filters into the search request', () => withServer({}, async (server, client) => {
+    const result = await client.search('/Documents', [{ extension: 'md', name: '*2024*' }], value => new Date(value), 50);
+    const body = server.requests[0].body;
+    assert.match(body, /<d:href>\/files\/alice\/Documents<\/d:href>/);
+    assert.match(body, /<d:literal>%\.md<\/d:literal>/);
+    assert.match(body, /<d:nresults>50<\/d:nresults>/);
+    assert.deepEqual(result.remainingFilters, [{ name: '*2024*' }]);
+    assert.ok(result.files.some(file => file.path === '/Documents/Old Documents/notes.md'));
+}));
+
+test('reports HTTP errors with their status', () => withServer({ errors: { '/Broken': 500 } }, async (_server, client) => {
+    await assert.rejects(client.propfind('/Missing', '1'), (error: DavError) => error instanceof DavError && error.status === 404);
+    await assert.rejects(client.propfind('/Broken', '1'), (error: DavError) => error instanceof DavError && error.status === 500);
+}));
+
+test('reports wrong credentials as status 401', () => withServer({}, async server => {
+    const client = new DavClient(fetchTransport, { id: 'test', nextcloudUrl: server.davUrl, username: 'alice', password: 'wrong' });
+    await assert.rejects(client.propfind('/', '1'), (error: DavError) => error instanceof DavError && error.status === 401);
+}));
+
+test('reports unreachable servers without a status', async () => {
+    const server = new MockDavServer({ files: [] });
+    await server.start();
+    const nextcloudUrl = server.davUrl;
+    await server.stop();
+
+    const client = new DavClient(fetchTransport, { id: 'test', nextcloudUrl, username: 'alice', password: 'secret' });
+    await assert.rejects(client.propfind('/', '1'), (error: Error) => !(error instanceof DavError));
+});